@@ -11,7 +11,9 @@ export default {
     '^.+\\.ts$': 'ts-jest'
   },
   moduleNameMapper: {
-    '^@/(.*)$': '<rootDir>/src/$1'
+    '^@/(.*)$': '<rootDir>/src/$1',
+    // The Nuxt runtime plugins import the SDK by its package name
+    '^error-explorer-vuejs-reporter$': '<rootDir>/src/index.ts'
   },
   collectCoverageFrom: [
     'src/**/*.ts',
@@ -36,7 +38,11 @@ export default {
         strict: true,
         esModuleInterop: true,
         skipLibCheck: true,
-        forceConsistentCasingInFileNames: true
+        forceConsistentCasingInFileNames: true,
+        paths: {
+          '#app': ['./node_modules/nuxt/dist/app'],
+          'error-explorer-vuejs-reporter': ['./src/index.ts']
+        }
       }
     }
   }
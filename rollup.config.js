@@ -66,6 +66,25 @@ export default [
       terser()
     ]
   },
+  // Nuxt module and its runtime plugins, the SDK itself is imported from the package so the app and the plugins share it
+  {
+    input: {
+      module: 'src/nuxt/module.ts',
+      'runtime/plugin.client': 'src/nuxt/runtime/plugin.client.ts',
+      'runtime/plugin.server': 'src/nuxt/runtime/plugin.server.ts'
+    },
+    output: {
+      dir: 'dist/nuxt',
+      format: 'es',
+      entryFileNames: '[name].mjs'
+    },
+    external: [...external, '@nuxt/kit', '#app', pkg.name],
+    plugins: [
+      typescript({
+        tsconfig: './src/nuxt/tsconfig.json'
+      })
+    ]
+  },
   // Type definitions
   {
     input: 'src/index.ts',
@@ -74,5 +93,15 @@ export default [
       format: 'es'
     },
     plugins: [dts()]
+  },
+  // Type definitions of the Nuxt module
+  {
+    input: 'src/nuxt/module.ts',
+    output: {
+      file: 'dist/nuxt/module.d.ts',
+      format: 'es'
+    },
+    external: ['@nuxt/kit', pkg.name],
+    plugins: [dts()]
   }
 ];
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { ComponentPublicInstance, PropType, defineComponent, getCurrentInstance, h, onErrorCaptured, ref, shallowRef, watch } from 'vue';
+import { getErrorExplorer } from '../plugin';
+import { VueErrorInfo } from '../types';
+import { getVueErrorInfo } from '../utils/vue';
+
+export interface ErrorDialogOptions {
+  title?: string;
+  subtitle?: string;
+  labelComments?: string;
+  labelSubmit?: string;
+  labelClose?: string;
+  successMessage?: string;
+}
+
+const DEFAULT_DIALOG: Required<ErrorDialogOptions> = {
+  title: 'It looks like something went wrong.',
+  subtitle: 'Our team has been notified. Tell us what happened to help us fix it.',
+  labelComments: 'What happened?',
+  labelSubmit: 'Send report',
+  labelClose: 'Close',
+  successMessage: 'Thank you for your feedback!'
+};
+
+function keysChanged(previous: unknown[] = [], next: unknown[] = []): boolean {
+  return previous.length !== next.length || previous.some((key, index) => !Object.is(key, next[index]));
+}
+
+export const ErrorBoundary = defineComponent({
+  name: 'ErrorBoundary',
+  props: {
+    // Reported as VueErrorInfo.errorBoundary, tells boundaries of the same page apart
+    name: {
+      type: String,
+      default: 'ErrorBoundary'
+    },
+    onError: {
+      type: Function as PropType<(error: Error, instance: ComponentPublicInstance | null, info: string) => void>,
+      default: undefined
+    },
+    // The boundary resets itself when any of these values changes, e.g. the route path
+    resetKeys: {
+      type: Array as PropType<unknown[]>,
+      default: undefined
+    },
+    showDialog: {
+      type: [Boolean, Object] as PropType<boolean | ErrorDialogOptions>,
+      default: false
+    }
+  },
+  setup(props, { slots }) {
+    const error = shallowRef<Error | null>(null);
+    const dialogOpen = ref(false);
+    const comments = ref('');
+    const feedbackSent = ref(false);
+
+    // Error hooks run outside of the component, so the app is resolved now
+    const app = getCurrentInstance()?.appContext.app;
+    const getReporter = () => (app && getErrorExplorer(app)) || getErrorExplorer();
+
+    const reset = () => {
+      error.value = null;
+      dialogOpen.value = false;
+      comments.value = '';
+      feedbackSent.value = false;
+    };
+
+    watch(() => props.resetKeys, (next, previous) => {
+      if (error.value && keysChanged(previous, next)) {
+        reset();
+      }
+    });
+
+    onErrorCaptured((thrown: unknown, instance: ComponentPublicInstance | null, info: string) => {
+      const captured = thrown instanceof Error ? thrown : new Error(String(thrown));
+      error.value = captured;
+      dialogOpen.value = !!props.showDialog;
+
+      const reporter = getReporter();
+      if (reporter) {
+        const vueInfo: VueErrorInfo = {
+          ...getVueErrorInfo(instance, info, reporter),
+          errorBoundary: props.name
+        };
+
+        reporter.addBreadcrumb(
+          `Vue Error in ${vueInfo.componentName}: ${info} (caught by ${props.name})`,
+          'vue.error',
+          'error',
+          vueInfo
+        );
+
+        void reporter.captureException(captured, {
+          vue: vueInfo,
+          error_info: info
+        });
+      }
+
+      props.onError?.(captured, instance, info);
+
+      // Handled here, app.config.errorHandler must not report it a second time
+      return false;
+    });
+
+    const sendFeedback = () => {
+      const text = comments.value.trim();
+      if (!text || !error.value) return;
+
+      void getReporter()?.captureMessage(`User feedback: ${text.slice(0, 100)}`, 'info', {
+        type: 'userFeedback',
+        feedback: {
+          comments: text,
+          exception_class: error.value.name,
+          message: error.value.message,
+          errorBoundary: props.name
+        }
+      });
+      feedbackSent.value = true;
+    };
+
+    const renderDialog = () => {
+      const options = { ...DEFAULT_DIALOG, ...(typeof props.showDialog === 'object' ? props.showDialog : {}) };
+      const close = () => { dialogOpen.value = false; };
+
+      return h('div', { class: 'error-explorer-dialog', role: 'dialog', 'aria-modal': 'true' }, feedbackSent.value
+        ? [
+            h('p', options.successMessage),
+            h('button', { type: 'button', onClick: close }, options.labelClose)
+          ]
+        : [
+            h('h2', options.title),
+            h('p', options.subtitle),
+            h('label', [
+              options.labelComments,
+              h('textarea', {
+                value: comments.value,
+                onInput: (event: Event) => { comments.value = (event.target as HTMLTextAreaElement).value; }
+              })
+            ]),
+            h('button', { type: 'button', onClick: sendFeedback }, options.labelSubmit),
+            h('button', { type: 'button', onClick: close }, options.labelClose)
+          ]);
+    };
+
+    return () => {
+      if (!error.value) {
+        return slots.default?.();
+      }
+
+      const fallback = slots.fallback
+        ? slots.fallback({ error: error.value, reset })
+        : h('div', { class: 'error-explorer-boundary', role: 'alert' }, [
+            h('p', error.value.message),
+            h('button', { type: 'button', onClick: reset }, 'Try again')
+          ]);
+
+      return dialogOpen.value ? [fallback, renderDialog()] : fallback;
+    };
+  }
+});
@@ -1,5 +1,8 @@
 import { inject, getCurrentInstance } from 'vue';
 import { UseErrorExplorerResult, SDKStats, SDKHealth, ErrorExplorerConfig } from '../types';
+import { Span, SpanOptions, Transaction, TransactionOptions } from '../services/Tracer';
+import { Scope } from '../services/Scope';
+import { getStats, isEnabled, getSDKHealth, startTransaction, startSpan, withScope, withScopeAsync } from '../plugin';
 
 interface ErrorExplorerComposable extends UseErrorExplorerResult {}
 
@@ -41,7 +44,6 @@ export function useErrorExplorer(): ErrorExplorerComposable {
     
     // New advanced methods
     getStats: (): SDKStats => {
-      const { getStats } = require('../plugin');
       return getStats();
     },
     flushQueue: async (): Promise<void> => {
@@ -59,7 +61,6 @@ export function useErrorExplorer(): ErrorExplorerComposable {
       });
     },
     isEnabled: (): boolean => {
-      const { isEnabled } = require('../plugin');
       return isEnabled();
     },
     setContext: (key: string, value: any): void => {
@@ -73,8 +74,24 @@ export function useErrorExplorer(): ErrorExplorerComposable {
       });
     },
     getSDKHealth: (): SDKHealth => {
-      const { getSDKHealth } = require('../plugin');
       return getSDKHealth();
+    },
+    startTransaction: (options: TransactionOptions): Transaction | null => {
+      return startTransaction(options);
+    },
+    startSpan: <T>(options: SpanOptions, callback: (span: Span | null) => T): T => {
+      return startSpan(options, callback);
+    },
+    setTag: (key: string, value: string): void => {
+      import('../plugin').then(({ setTag }) => {
+        setTag(key, value);
+      });
+    },
+    withScope: <T>(callback: (scope: Scope) => T): T => {
+      return withScope(callback);
+    },
+    withScopeAsync: <T>(callback: (scope: Scope) => Promise<T>): Promise<T> => {
+      return withScopeAsync(callback);
     }
   };
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+export class TimeoutError extends Error {
+  readonly timeout: number;
+
+  constructor(timeout: number) {
+    super(`Request timed out after ${timeout}ms`);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+    Object.setPrototypeOf(this, TimeoutError.prototype);
+  }
+}
+
+export class HttpError extends Error {
+  readonly status: number;
+  readonly method: string;
+  readonly url: string;
+
+  constructor(status: number, method: string, url: string) {
+    super(`${method} ${url} responded with ${status}`);
+    this.name = 'HttpError';
+    this.status = status;
+    this.method = method;
+    this.url = url;
+    Object.setPrototypeOf(this, HttpError.prototype);
+  }
+}
+
+export class HydrationMismatchError extends Error {
+  readonly route: string;
+  readonly count: number;
+
+  constructor(route: string, count: number) {
+    super(`Hydration mismatch on ${route} (${count} ${count === 1 ? 'mismatch' : 'mismatches'})`);
+    this.name = 'HydrationMismatchError';
+    this.route = route;
+    this.count = count;
+    Object.setPrototypeOf(this, HydrationMismatchError.prototype);
+  }
+}
@@ -1,6 +1,12 @@
+import { ErrorExplorerPlugin } from './plugin';
+
 // Main exports
 export { ErrorReporter } from './services/ErrorReporter';
 export { BreadcrumbManager } from './services/BreadcrumbManager';
+export { Hub, ERROR_REPORTER_KEY } from './services/Hub';
+export { Scope } from './services/Scope';
+export { setAsyncContextStorage } from './services/AsyncContext';
+export type { AsyncContextStorage, AsyncContextStorageClass } from './services/AsyncContext';
 
 // New advanced services
 export { RateLimiter } from './services/RateLimiter';
@@ -12,12 +18,32 @@ export { SDKMonitor } from './services/SDKMonitor';
 export { CircuitBreaker } from './services/CircuitBreaker';
 export { CompressionService } from './services/CompressionService';
 export { BatchManager } from './services/BatchManager';
+export { UnloadManager } from './services/UnloadManager';
+export { SourceMapResolver } from './services/SourceMapResolver';
+export { Fingerprinter } from './services/Fingerprinter';
+export { Tracer, Transaction, Span } from './services/Tracer';
+export type { TracingConfig, SpanOptions, TransactionOptions } from './services/Tracer';
+export { WebVitalsCollector } from './services/WebVitalsCollector';
+export type { WebVitalsConfig, WebVitalsReport } from './services/WebVitalsCollector';
+export { ReplayRecorder } from './services/ReplayRecorder';
+export type { ReplayConfig } from './services/ReplayRecorder';
+export { HttpInstrumentation, scrubUrl } from './services/HttpInstrumentation';
+export type { HttpInstrumentationConfig } from './services/HttpInstrumentation';
+export { InteractionTracker } from './services/InteractionTracker';
+export type { InteractionConfig, InteractionType } from './services/InteractionTracker';
+
+// Transports
+export { FetchTransport, BeaconTransport, XHRTransport, createTransport } from './transports';
+
+// Errors
+export { TimeoutError, HttpError, HydrationMismatchError } from './errors';
 
 // Plugin and composables
 export {
   ErrorExplorerPlugin,
   createErrorExplorer,
   getErrorExplorer,
+  bindErrorExplorer,
   captureException,
   captureMessage,
   addBreadcrumb,
@@ -30,22 +56,47 @@ export {
   isEnabled,
   setContext,
   removeContext,
-  getSDKHealth
+  getSDKHealth,
+  startTransaction,
+  startSpan,
+  setTag,
+  withScope,
+  withScopeAsync,
+  pushScope,
+  popScope,
+  instrumentAxios,
+  instrumentRouter,
+  instrumentPinia,
+  createVuexPlugin,
+  createErrorExplorerAPI
 } from './plugin';
+export { isChunkLoadError } from './plugin/router';
+export { createServerReporter, createRequestScope, createRequestReporter, createRequestAPI } from './plugin/server';
+export type { ServerRequestInfo } from './plugin/server';
 export { useErrorExplorer } from './composables/useErrorExplorer';
 
+// Components
+export { ErrorBoundary } from './components/ErrorBoundary';
+export type { ErrorDialogOptions } from './components/ErrorBoundary';
+
 // Utilities
 export {
   safeStringify,
   extractErrorInfo,
   getBrowserInfo,
   getPerformanceInfo,
+  getNavigationTiming,
   debounce,
   throttle,
   generateSessionId,
   isDevelopment,
   PerformanceMeasurement
 } from './utils/performance';
+export { parseStackTrace, findCulpritFrame, isInAppFilename } from './utils/stackTrace';
+export { extractLinkedExceptions, getRootCause } from './utils/errorChain';
+export { normalize } from './utils/normalize';
+export { getVueErrorInfo } from './utils/vue';
+export type { NormalizeOptions } from './utils/normalize';
 
 // Types
 export type {
@@ -55,14 +106,45 @@ export type {
   BrowserData,
   UserContext,
   Breadcrumb,
+  StackFrame,
+  RawSourceMap,
+  LinkedException,
+  FingerprintRule,
+  ErrorExplorerPluginOptions,
+  PerformanceData,
+  SpanData,
+  SpanStatus,
+  EventPayload,
+  WebVitalsData,
+  WebVitalMetric,
+  WebVitalName,
+  WebVitalRating,
+  NavigationTimingInfo,
+  ReplayEvent,
+  ReplayEventType,
+  ReplaySegment,
+  HttpRequestInfo,
+  AxiosInstanceLike,
+  AxiosInstrumentationOptions,
+  RouterLike,
+  RouteLocationLike,
+  PiniaLike,
+  PiniaIntegrationOptions,
+  VuexStoreLike,
+  VuexIntegrationOptions,
   VueErrorInfo,
+  ComponentTraceEntry,
   ErrorLevel,
   // New advanced types
   SDKStats,
   QuotaStats,
   SDKHealth,
   PerformanceMetrics,
-  UseErrorExplorerResult
+  UseErrorExplorerResult,
+  Transport,
+  TransportType,
+  TransportRequest,
+  TransportResponse
 } from './types';
 
 // Default export for convenience
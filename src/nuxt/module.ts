@@ -0,0 +1,30 @@
+import { addPlugin, createResolver, defineNuxtModule } from '@nuxt/kit';
+import type { ErrorExplorerConfig } from 'error-explorer-vuejs-reporter';
+
+// Options reach the runtime plugins through the public runtime config, functions and regular expressions do not survive the trip
+export type ModuleOptions = Partial<ErrorExplorerConfig>;
+
+export default defineNuxtModule<ModuleOptions>({
+  meta: {
+    name: 'error-explorer-vuejs-reporter',
+    configKey: 'errorExplorer',
+    compatibility: {
+      nuxt: '^3.0.0'
+    }
+  },
+  defaults: {},
+  setup(options, nuxt) {
+    const resolver = createResolver(import.meta.url);
+
+    // runtimeConfig values win, so NUXT_PUBLIC_ERROR_EXPLORER_* variables can override the options at runtime
+    nuxt.options.runtimeConfig.public.errorExplorer = {
+      ...options,
+      ...(nuxt.options.runtimeConfig.public.errorExplorer as ModuleOptions | undefined)
+    };
+
+    nuxt.options.build.transpile.push(resolver.resolve('./runtime'));
+
+    addPlugin({ src: resolver.resolve('./runtime/plugin.client'), mode: 'client' });
+    addPlugin({ src: resolver.resolve('./runtime/plugin.server'), mode: 'server' });
+  }
+});
@@ -0,0 +1,25 @@
+import { defineNuxtPlugin, useRouter, useRuntimeConfig } from '#app';
+import { ErrorExplorerPlugin, getErrorExplorer } from 'error-explorer-vuejs-reporter';
+import type { ErrorExplorerConfig } from 'error-explorer-vuejs-reporter';
+
+export default defineNuxtPlugin({
+  name: 'error-explorer:client',
+  setup(nuxtApp) {
+    const config = useRuntimeConfig().public.errorExplorer as ErrorExplorerConfig;
+
+    // Every Nuxt page is server-rendered, so hydration mismatches are reported unless disabled
+    nuxtApp.vueApp.use(ErrorExplorerPlugin, {
+      captureHydrationMismatches: true,
+      ...config,
+      router: useRouter()
+    });
+
+    // Errors outside of components: plugins, middleware, fatal errors
+    nuxtApp.hook('app:error', (error: unknown) => {
+      const reporter = getErrorExplorer(nuxtApp.vueApp);
+      if (reporter && error instanceof Error) {
+        void reporter.captureException(error, { type: 'nuxtAppError' });
+      }
+    });
+  }
+});
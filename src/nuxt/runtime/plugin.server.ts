@@ -0,0 +1,54 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { defineNuxtPlugin, useRuntimeConfig } from '#app';
+import { bindErrorExplorer, createErrorExplorerAPI, createRequestReporter, createRequestScope, createServerReporter, getVueErrorInfo, setAsyncContextStorage } from 'error-explorer-vuejs-reporter';
+import type { ErrorExplorerConfig, ErrorReporter } from 'error-explorer-vuejs-reporter';
+
+// One reporter for the server process, so rate limits, quota and the circuit breaker apply across requests
+let serverReporter: ErrorReporter | null = null;
+
+export default defineNuxtPlugin({
+  name: 'error-explorer:server',
+  setup(nuxtApp) {
+    const config = useRuntimeConfig().public.errorExplorer as ErrorExplorerConfig;
+    const event = nuxtApp.ssrContext?.event;
+    if (!serverReporter) {
+      // Node before 20.16 is not detected, scopes would not follow the awaits of a request
+      setAsyncContextStorage(AsyncLocalStorage);
+      serverReporter = createServerReporter(config);
+    }
+    const reporter = serverReporter;
+
+    // Each request has its own scope: user, context and breadcrumbs never leak between requests
+    const scope = createRequestScope(reporter, event && {
+      url: event.path,
+      method: event.method,
+      headers: event.node.req.headers
+    });
+
+    // The integrations, ErrorBoundary and useErrorExplorer() find the request's reporter through its app
+    const requestReporter = createRequestReporter(reporter, scope);
+    bindErrorExplorer(nuxtApp.vueApp, requestReporter);
+
+    const api = createErrorExplorerAPI(() => requestReporter);
+    nuxtApp.vueApp.provide('errorExplorer', api);
+    nuxtApp.vueApp.config.globalProperties.$errorExplorer = api;
+
+    nuxtApp.hook('vue:error', (error: unknown, instance, info: string) => {
+      if (!(error instanceof Error)) return;
+
+      const vueInfo = getVueErrorInfo(instance, info, requestReporter);
+      requestReporter.addBreadcrumb(`Vue Error in ${vueInfo.componentName}: ${info}`, 'vue.error', 'error', vueInfo);
+      void requestReporter.captureException(error, {
+        vue: vueInfo,
+        error_info: info
+      });
+    });
+
+    // Fatal errors are also seen by vue:error, the duplicate window drops the second report
+    nuxtApp.hook('app:error', (error: unknown) => {
+      if (error instanceof Error) {
+        void requestReporter.captureException(error, { type: 'nuxtAppError' });
+      }
+    });
+  }
+});
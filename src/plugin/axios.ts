@@ -0,0 +1,187 @@
+import { ErrorReporter } from '../services/ErrorReporter';
+import { Span } from '../services/Tracer';
+import { scrubUrl, matchesStatusCode, claimRequest } from '../services/HttpInstrumentation';
+import { HttpError } from '../errors';
+import { safeStringify } from '../utils/performance';
+import {
+  AxiosErrorLike,
+  AxiosInstanceLike,
+  AxiosInstrumentationOptions,
+  AxiosRequestConfigLike,
+  AxiosResponseLike
+} from '../types';
+
+interface RequestState {
+  startTime: number;
+  span?: Span;
+  releaseClaim: () => void;
+}
+
+const TRACE_HEADER = 'traceparent';
+
+function now(): number {
+  return typeof performance !== 'undefined' && performance.now ? performance.now() : Date.now();
+}
+
+function getRequestUrl(instance: AxiosInstanceLike, config: AxiosRequestConfigLike): string {
+  if (instance.getUri) {
+    try {
+      return instance.getUri(config);
+    } catch (error) {
+      // Fall back to joining the base URL ourselves
+    }
+  }
+
+  const url = config.url || '';
+  if (!config.baseURL || /^[a-z][a-z\d+\-.]*:\/\//i.test(url)) {
+    return url;
+  }
+  return `${config.baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
+
+function shouldPropagate(url: string, targets?: Array<string | RegExp>): boolean {
+  if (targets) {
+    return targets.some(target => typeof target === 'string' ? url.startsWith(target) : target.test(url));
+  }
+
+  // Custom headers on cross-origin requests trigger CORS preflights the server may reject
+  if (typeof window === 'undefined') return false;
+  try {
+    return new URL(url, window.location.href).origin === new URL(window.location.href).origin;
+  } catch (error) {
+    return false;
+  }
+}
+
+function setHeader(config: AxiosRequestConfigLike, name: string, value: string): void {
+  if (config.headers && typeof config.headers.set === 'function') {
+    config.headers.set(name, value);
+  } else {
+    config.headers = { ...config.headers, [name]: value };
+  }
+}
+
+function getHeader(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+function describeResponse(response: AxiosResponseLike): Record<string, any> {
+  return {
+    status: response.status,
+    status_text: response.statusText,
+    content_type: getHeader(response.headers, 'content-type'),
+    request_id: getHeader(response.headers, 'x-request-id'),
+    data: response.data === undefined ? undefined : safeStringify(response.data, 5, 1000)
+  };
+}
+
+/**
+ * Install request and response interceptors on an axios instance. Returns a
+ * function that removes them again.
+ */
+export function instrumentAxiosInstance(
+  instance: AxiosInstanceLike,
+  getReporter: () => ErrorReporter | null,
+  options: AxiosInstrumentationOptions = {}
+): () => void {
+  const {
+    captureErrors = true,
+    failedStatusCodes = [[500, 599]],
+    propagateTrace = true,
+    tracePropagationTargets
+  } = options;
+
+  const requests = new WeakMap<object, RequestState>();
+
+  const finish = (config: AxiosRequestConfigLike | undefined, status?: number, error?: string) => {
+    const state = config ? requests.get(config) : undefined;
+    if (!config || !state) return null;
+    // Released first, a claim left behind would hide the next request to the same URL
+    state.releaseClaim();
+
+    const reporter = getReporter();
+    if (!reporter) return null;
+
+    const method = (config.method || 'get').toUpperCase();
+    const url = scrubUrl(getRequestUrl(instance, config), reporter.getSecurityValidator());
+    const duration = Math.round(now() - state.startTime);
+
+    reporter.getBreadcrumbManager().addHttpRequest(method, url, status, {
+      duration,
+      ...(error ? { error } : {})
+    });
+
+    if (state.span) {
+      state.span.setData('http.status_code', status);
+      state.span.setStatus(error || (status !== undefined && status >= 400) ? 'error' : 'ok');
+      state.span.finish();
+    }
+
+    return { reporter, method, url, duration };
+  };
+
+  const requestInterceptor = instance.interceptors.request.use((config: AxiosRequestConfigLike) => {
+    const reporter = getReporter();
+    if (!reporter || !reporter.isEnabled()) return config;
+
+    const url = getRequestUrl(instance, config);
+    // Recorded here with the axios context, so captureHttpRequests does not record it a second time
+    const state: RequestState = { startTime: now(), releaseClaim: claimRequest(config.method || 'get', url) };
+    const transaction = reporter.getActiveTransaction();
+
+    if (transaction) {
+      state.span = transaction.startChild({
+        op: 'http.client',
+        description: `${(config.method || 'get').toUpperCase()} ${scrubUrl(url, reporter.getSecurityValidator())}`
+      });
+
+      // W3C trace context, lets the backend join its own spans to this trace
+      if (propagateTrace && shouldPropagate(url, tracePropagationTargets)) {
+        setHeader(config, TRACE_HEADER, `00-${state.span.traceId}-${state.span.spanId}-${transaction.sampled ? '01' : '00'}`);
+      }
+    }
+
+    requests.set(config, state);
+    return config;
+  });
+
+  const responseInterceptor = instance.interceptors.response.use(
+    (response: AxiosResponseLike) => {
+      finish(response.config, response.status);
+      return response;
+    },
+    (error: AxiosErrorLike) => {
+      const status = error?.response?.status;
+      const cancelled = error?.code === 'ERR_CANCELED';
+      const request = finish(error?.config, status, status === undefined ? (cancelled ? 'Request cancelled' : error?.message) : undefined);
+
+      // Cancelled requests were aborted on purpose, client errors are handled by the caller
+      const failed = status === undefined ? !cancelled : matchesStatusCode(status, failedStatusCodes);
+
+      if (request && captureErrors && failed && error instanceof Error) {
+        const captured = status !== undefined ? new HttpError(status, request.method, request.url) : error;
+
+        void request.reporter.captureException(captured, {
+          type: 'httpError',
+          http: {
+            method: request.method,
+            url: request.url,
+            status_code: status,
+            duration: request.duration,
+            error_code: error.code,
+            response: error.response ? describeResponse(error.response) : undefined
+          }
+        });
+      }
+
+      return Promise.reject(error);
+    }
+  );
+
+  return () => {
+    instance.interceptors.request.eject(requestInterceptor);
+    instance.interceptors.response.eject(responseInterceptor);
+  };
+}
@@ -0,0 +1,153 @@
+import { App, ComponentInternalInstance } from 'vue';
+import { ErrorReporter } from '../services/ErrorReporter';
+import { HydrationMismatchError } from '../errors';
+import { RouteLocationLike } from '../types';
+import { getComponentName } from '../utils/vue';
+import { WarnHandler } from './warnings';
+
+// Development builds warn per node ("Hydration text mismatch in..."), production logs one summary
+const MISMATCH_WARNING = /^Hydration\b.*\bmismatch/i;
+const MISMATCH_SUMMARY = 'Hydration completed but contains mismatches';
+const MAX_MISMATCHES = 10;
+
+interface HydrationMismatch {
+  message: string;
+  component?: string;
+  componentPath?: string;
+}
+
+interface PendingReport {
+  path: string;
+  count: number;
+  mismatches: HydrationMismatch[];
+}
+
+export function isHydrationMismatch(message: unknown): message is string {
+  return typeof message === 'string' && (MISMATCH_WARNING.test(message) || message.includes(MISMATCH_SUMMARY));
+}
+
+// Root first, as in the component tree of the devtools
+function getComponentPath(instance: ComponentInternalInstance): string {
+  const names: string[] = [];
+  for (let current: ComponentInternalInstance | null = instance; current; current = current.parent) {
+    names.unshift(getComponentName(current));
+  }
+  return names.join(' > ');
+}
+
+// The route pattern, so /products/1 and /products/2 are the same broken page
+function getRouteKey(route: RouteLocationLike | undefined): { key: string; path: string } {
+  if (route) {
+    const matched = route.matched && route.matched[route.matched.length - 1];
+    return { key: matched ? matched.path : route.path, path: route.path };
+  }
+
+  const path = typeof window !== 'undefined' ? window.location.pathname : 'unknown';
+  return { key: path, path };
+}
+
+/**
+ * Report hydration mismatches, detected from Vue's warnings in development and
+ * its console summary in production. The mismatches of a hydration pass are
+ * sent as one 'hydrationMismatch' event, at most once per route; later ones
+ * only add breadcrumbs. Returns a function that restores the warnHandler and
+ * console.error.
+ */
+export function instrumentHydrationMismatches(
+  app: App,
+  getReporter: () => ErrorReporter | null,
+  getRoute: () => RouteLocationLike | undefined
+): () => void {
+  const reported = new Set<string>();
+  const pending = new Map<string, PendingReport>();
+
+  const flush = (routeKey: string) => {
+    const report = pending.get(routeKey);
+    const reporter = getReporter();
+    pending.delete(routeKey);
+    if (!report || !reporter) return;
+
+    reported.add(routeKey);
+    const first = report.mismatches.find(mismatch => mismatch.component) || report.mismatches[0];
+
+    void reporter.captureException(new HydrationMismatchError(routeKey, report.count), {
+      type: 'hydrationMismatch',
+      level: 'warning',
+      fingerprint: ['hydration-mismatch', routeKey],
+      hydration: {
+        route: routeKey,
+        path: report.path,
+        count: report.count,
+        mismatches: report.mismatches
+      },
+      vue: first?.component ? { componentName: first.component, componentPath: first.componentPath } : undefined
+    });
+  };
+
+  const record = (message: string, instance: ComponentInternalInstance | null | undefined) => {
+    const reporter = getReporter();
+    if (!reporter) return;
+
+    const { key, path } = getRouteKey(getRoute());
+    const mismatch: HydrationMismatch = {
+      message: message.trim(),
+      component: instance ? getComponentName(instance) : undefined,
+      componentPath: instance ? getComponentPath(instance) : undefined
+    };
+
+    reporter.addBreadcrumb(`Hydration mismatch on ${key}`, 'vue.hydration', 'warning', { route: key, ...mismatch });
+
+    if (reported.has(key)) return;
+
+    let report = pending.get(key);
+    if (!report) {
+      report = { path, count: 0, mismatches: [] };
+      pending.set(key, report);
+      // Hydration is synchronous, the whole pass is collected before reporting
+      setTimeout(() => flush(key), 0);
+    }
+
+    // In development the summary follows the detailed warnings, it adds nothing
+    const isSummary = message.includes(MISMATCH_SUMMARY);
+    if (isSummary && report.count > 0) return;
+
+    report.count++;
+    if (report.mismatches.length < MAX_MISMATCHES) {
+      report.mismatches.push(mismatch);
+    }
+  };
+
+  const originalWarnHandler = app.config.warnHandler;
+  const warnHandler: WarnHandler = (msg, instance, trace) => {
+    if (isHydrationMismatch(msg)) {
+      record(msg, instance?.$);
+    }
+
+    if (originalWarnHandler) {
+      originalWarnHandler(msg, instance, trace);
+    } else {
+      // Vue stops logging warnings itself once a handler is set
+      console.warn(`[Vue warn]: ${msg}${trace}`);
+    }
+  };
+  app.config.warnHandler = warnHandler;
+
+  const originalConsoleError = console.error;
+  const consoleError = (...args: any[]) => {
+    if (isHydrationMismatch(args[0])) {
+      record(args[0], null);
+    }
+    originalConsoleError.apply(console, args);
+  };
+  console.error = consoleError;
+
+  // Whatever was installed on top of ours since stays in place
+  return () => {
+    if (app.config.warnHandler === warnHandler) {
+      app.config.warnHandler = originalWarnHandler;
+    }
+    if (console.error === consoleError) {
+      console.error = originalConsoleError;
+    }
+  };
+}
@@ -1,38 +1,48 @@
-import { App, ComponentInternalInstance } from 'vue';
+import { App, ComponentPublicInstance } from 'vue';
 import { ErrorReporter } from '../services/ErrorReporter';
-import { ErrorExplorerConfig, VueErrorInfo, UseErrorExplorerResult, SDKStats, SDKHealth } from '../types';
+import { ErrorExplorerConfig, ErrorExplorerPluginOptions, UseErrorExplorerResult, SDKStats, SDKHealth, AxiosInstanceLike, AxiosInstrumentationOptions, RouterLike, PiniaLike, PiniaIntegrationOptions, VuexStoreLike, VuexIntegrationOptions } from '../types';
+import { Span, SpanOptions, Transaction, TransactionOptions } from '../services/Tracer';
+import { Hub } from '../services/Hub';
+import { Scope } from '../services/Scope';
+import { createComponentTracingMixin } from './tracing';
+import { createLifecycleTrackingMixin } from './lifecycle';
+import { instrumentAxiosInstance } from './axios';
+import { instrumentRouterIntegration } from './router';
+import { createPiniaIntegration } from './pinia';
+import { instrumentVuexStore } from './vuex';
+import { createWarnHandler } from './warnings';
+import { instrumentHydrationMismatches } from './hydration';
+import { getVueErrorInfo } from '../utils/vue';
 
-let globalErrorReporter: ErrorReporter | null = null;
+const hub = new Hub();
 
 export interface ErrorExplorerPlugin {
-  install(app: App, options: ErrorExplorerConfig): void;
+  install(app: App, options: ErrorExplorerPluginOptions): void;
 }
 
 export const ErrorExplorerPlugin: ErrorExplorerPlugin = {
-  install(app: App, options: ErrorExplorerConfig) {
-    // Initialize the error reporter
-    globalErrorReporter = new ErrorReporter(options);
+  install(app: App, options: ErrorExplorerPluginOptions) {
+    // Each app has its own reporter, provided to its components
+    const reporter = new ErrorReporter(options);
+    const getReporter = () => reporter;
+    hub.bindApp(app, reporter);
     
     // Set up Vue error handler
     const originalErrorHandler = app.config.errorHandler;
     
-    app.config.errorHandler = (error: unknown, instance: ComponentInternalInstance | null, info: string) => {
+    app.config.errorHandler = (error: unknown, instance: ComponentPublicInstance | null, info: string) => {
       // Capture the error with Vue context
-      if (error instanceof Error && globalErrorReporter) {
-        const vueInfo: VueErrorInfo = {
-          componentName: instance?.type?.name || instance?.type?.displayName || 'Unknown',
-          propsData: instance?.props,
-          lifecycle: info
-        };
+      if (error instanceof Error) {
+        const vueInfo = getVueErrorInfo(instance, info, reporter);
         
-        globalErrorReporter.addBreadcrumb(
+        reporter.addBreadcrumb(
           `Vue Error in ${vueInfo.componentName}: ${info}`,
           'vue.error',
           'error',
           vueInfo
         );
         
-        globalErrorReporter.captureException(error, {
+        reporter.captureException(error, {
           vue: vueInfo,
           error_info: info
         });
@@ -44,128 +54,191 @@ export const ErrorExplorerPlugin: ErrorExplorerPlugin = {
       }
     };
     
-    // Set up navigation tracking for Vue Router if available
-    app.mixin({
-      beforeRouteEnter(to, from, next) {
-        if (globalErrorReporter) {
-          globalErrorReporter.getBreadcrumbManager().addNavigation(
-            from.fullPath || 'initial',
-            to.fullPath
-          );
-        }
-        next();
-      },
-      beforeRouteUpdate(to, from, next) {
-        if (globalErrorReporter) {
-          globalErrorReporter.getBreadcrumbManager().addNavigation(
-            from.fullPath,
-            to.fullPath
-          );
-        }
-        next();
-      }
-    });
+    // Record Vue warnings if enabled
+    if (options.captureVueWarnings) {
+      app.config.warnHandler = createWarnHandler(
+        getReporter,
+        !!options.reportVueWarnings,
+        app.config.warnHandler
+      );
+    }
+    
+    // One event per route whose server-rendered markup does not match the client
+    const removeHydrationInstrumentation = options.captureHydrationMismatches
+      ? instrumentHydrationMismatches(app, getReporter, () => options.router?.currentRoute?.value)
+      : null;
+    
+    // Navigation breadcrumbs, route context, router errors and navigation transactions
+    if (options.router) {
+      instrumentRouterIntegration(options.router, getReporter);
+    }
+    
+    // Performance monitoring: component mount transactions
+    if (options.tracesSampleRate && options.traceVueComponents !== false) {
+      app.mixin(createComponentTracingMixin(getReporter));
+    }
+    
+    // Mount, update and unmount breadcrumbs of selected components
+    if (options.trackComponents && options.trackComponents.length > 0) {
+      const config = reporter.getConfig();
+      app.mixin(createLifecycleTrackingMixin(getReporter, {
+        components: config.trackComponents,
+        slowUpdateThreshold: config.slowUpdateThreshold,
+        reportSlowComponents: config.reportSlowComponents
+      }));
+    }
     
     // Add global properties with all new methods
-    const errorExplorerAPI: UseErrorExplorerResult = {
-      captureException: (error: Error, context?: Record<string, any>) => {
-        return globalErrorReporter?.captureException(error, context) || Promise.resolve();
-      },
-      captureMessage: (message: string, level: 'debug' | 'info' | 'warning' | 'error' = 'info', context?: Record<string, any>) => {
-        return globalErrorReporter?.captureMessage(message, level, context) || Promise.resolve();
-      },
-      addBreadcrumb: (message: string, category?: string, level?: 'debug' | 'info' | 'warning' | 'error', data?: Record<string, any>) => {
-        globalErrorReporter?.addBreadcrumb(message, category, level, data);
-      },
-      setUser: (user: Record<string, any>) => {
-        globalErrorReporter?.setUser(user);
-      },
-      
-      // New advanced methods
-      getStats: () => {
-        return globalErrorReporter?.getStats() || {
-          queueSize: 0,
-          isOnline: true,
-          rateLimitRemaining: 0,
-          rateLimitReset: Date.now(),
-          quotaStats: {
-            dailyUsage: 0,
-            monthlyUsage: 0,
-            dailyRemaining: 0,
-            monthlyRemaining: 0,
-            burstUsage: 0,
-            burstRemaining: 0,
-            isOverQuota: false,
-            nextResetTime: Date.now()
-          },
-          circuitBreakerState: 'CLOSED',
-          sdkHealth: {
-            status: 'unhealthy' as const,
-            score: 0,
-            issues: ['SDK not initialized'],
-            recommendations: ['Initialize ErrorExplorer plugin']
-          },
-          performanceMetrics: {
-            errorsReported: 0,
-            errorsSuppressed: 0,
-            retryAttempts: 0,
-            offlineQueueSize: 0,
-            averageResponseTime: 0,
-            uptime: 0
-          }
-        };
-      },
-      flushQueue: async () => {
-        return globalErrorReporter?.flushQueue() || Promise.resolve();
-      },
-      updateConfig: (updates: Partial<ErrorExplorerConfig>) => {
-        globalErrorReporter?.updateConfig(updates);
-      },
-      clearBreadcrumbs: () => {
-        globalErrorReporter?.clearBreadcrumbs();
-      },
-      isEnabled: () => {
-        return globalErrorReporter?.isEnabled() || false;
-      },
-      setContext: (key: string, value: any) => {
-        globalErrorReporter?.setContext(key, value);
-      },
-      removeContext: (key: string) => {
-        globalErrorReporter?.removeContext(key);
-      },
-      getSDKHealth: () => {
-        return globalErrorReporter?.getSDKHealth() || {
-          status: 'unhealthy' as const,
-          score: 0,
-          issues: ['SDK not initialized'],
-          recommendations: ['Initialize ErrorExplorer plugin']
-        };
-      }
-    };
+    const errorExplorerAPI = createErrorExplorerAPI(getReporter);
 
     app.config.globalProperties.$errorExplorer = errorExplorerAPI;
     
     // Provide for composition API with the same complete API
     app.provide('errorExplorer', errorExplorerAPI);
+    
+    // Lets the next app become the default reporter and releases the page hooks of this one
+    const release = () => {
+      removeHydrationInstrumentation?.();
+      hub.unbindApp(app);
+      reporter.destroy();
+    };
+    if (typeof app.onUnmount === 'function') {
+      app.onUnmount(release);
+    } else {
+      // Before Vue 3.5
+      const unmount = app.unmount;
+      app.unmount = () => {
+        unmount.call(app);
+        release();
+      };
+    }
   }
 };
 
+// The API of $errorExplorer and inject('errorExplorer'), bound to one reporter
+export function createErrorExplorerAPI(getReporter: () => ErrorReporter | null): UseErrorExplorerResult {
+  return {
+    captureException: (error: Error, context?: Record<string, any>) => {
+      return getReporter()?.captureException(error, context) || Promise.resolve();
+    },
+    captureMessage: (message: string, level: 'debug' | 'info' | 'warning' | 'error' = 'info', context?: Record<string, any>) => {
+      return getReporter()?.captureMessage(message, level, context) || Promise.resolve();
+    },
+    addBreadcrumb: (message: string, category?: string, level?: 'debug' | 'info' | 'warning' | 'error', data?: Record<string, any>) => {
+      getReporter()?.addBreadcrumb(message, category, level, data);
+    },
+    setUser: (user: Record<string, any>) => {
+      getReporter()?.setUser(user);
+    },
+    
+    // New advanced methods
+    getStats: () => {
+      return getReporter()?.getStats() || {
+        queueSize: 0,
+        isOnline: true,
+        rateLimitRemaining: 0,
+        rateLimitReset: Date.now(),
+        quotaStats: {
+          dailyUsage: 0,
+          monthlyUsage: 0,
+          dailyRemaining: 0,
+          monthlyRemaining: 0,
+          burstUsage: 0,
+          burstRemaining: 0,
+          isOverQuota: false,
+          nextResetTime: Date.now()
+        },
+        circuitBreakerState: 'CLOSED',
+        sdkHealth: {
+          status: 'unhealthy' as const,
+          score: 0,
+          issues: ['SDK not initialized'],
+          recommendations: ['Initialize ErrorExplorer plugin']
+        },
+        performanceMetrics: {
+          errorsReported: 0,
+          errorsSuppressed: 0,
+          retryAttempts: 0,
+          timeouts: 0,
+          offlineQueueSize: 0,
+          averageResponseTime: 0,
+          uptime: 0
+        }
+      };
+    },
+    flushQueue: async () => {
+      return getReporter()?.flushQueue() || Promise.resolve();
+    },
+    updateConfig: (updates: Partial<ErrorExplorerConfig>) => {
+      getReporter()?.updateConfig(updates);
+    },
+    clearBreadcrumbs: () => {
+      getReporter()?.clearBreadcrumbs();
+    },
+    isEnabled: () => {
+      return getReporter()?.isEnabled() || false;
+    },
+    setContext: (key: string, value: any) => {
+      getReporter()?.setContext(key, value);
+    },
+    removeContext: (key: string) => {
+      getReporter()?.removeContext(key);
+    },
+    getSDKHealth: () => {
+      return getReporter()?.getSDKHealth() || {
+        status: 'unhealthy' as const,
+        score: 0,
+        issues: ['SDK not initialized'],
+        recommendations: ['Initialize ErrorExplorer plugin']
+      };
+    },
+    startTransaction: (transactionOptions: TransactionOptions) => {
+      return getReporter()?.startTransaction(transactionOptions) || null;
+    },
+    startSpan: <T>(spanOptions: SpanOptions, callback: (span: Span | null) => T): T => {
+      const reporter = getReporter();
+      return reporter ? reporter.startSpan(spanOptions, callback) : callback(null);
+    },
+    setTag: (key: string, value: string) => {
+      getReporter()?.setTag(key, value);
+    },
+    withScope: <T>(callback: (scope: Scope) => T): T => {
+      const reporter = getReporter();
+      return reporter ? reporter.withScope(callback) : callback(new Scope());
+    },
+    withScopeAsync: <T>(callback: (scope: Scope) => Promise<T>): Promise<T> => {
+      const reporter = getReporter();
+      return reporter ? reporter.withScopeAsync(callback) : callback(new Scope());
+    }
+  };
+}
+
 // Standalone functions
+
+// The created reporter becomes the default one, used outside of the components of an app
 export function createErrorExplorer(config: ErrorExplorerConfig): ErrorReporter {
-  globalErrorReporter = new ErrorReporter(config);
-  return globalErrorReporter;
+  const reporter = new ErrorReporter(config);
+  hub.setDefault(reporter);
+  return reporter;
+}
+
+// Bind a reporter created elsewhere to an app, e.g. the reporter of a server request. It never becomes the default
+export function bindErrorExplorer(app: App, reporter: ErrorReporter): void {
+  hub.bindApp(app, reporter, false);
 }
 
-export function getErrorExplorer(): ErrorReporter | null {
-  return globalErrorReporter;
+// The reporter of the given app, or of the running component's app, or the default one
+export function getErrorExplorer(app?: App): ErrorReporter | null {
+  return app ? hub.getAppReporter(app) : hub.getCurrent();
 }
 
 export function captureException(error: Error, context?: Record<string, any>): Promise<void> {
-  if (!globalErrorReporter) {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
     console.warn('ErrorExplorer: Not initialized. Install the plugin or call createErrorExplorer first.');
     return Promise.resolve();
   }
-  return globalErrorReporter.captureException(error, context);
+  return reporter.captureException(error, context);
 }
 
 export function captureMessage(
@@ -173,11 +246,12 @@ export function captureMessage(
   level: 'debug' | 'info' | 'warning' | 'error' = 'info',
   context?: Record<string, any>
 ): Promise<void> {
-  if (!globalErrorReporter) {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
     console.warn('ErrorExplorer: Not initialized. Install the plugin or call createErrorExplorer first.');
     return Promise.resolve();
   }
-  return globalErrorReporter.captureMessage(message, level, context);
+  return reporter.captureMessage(message, level, context);
 }
 
 export function addBreadcrumb(
@@ -186,25 +260,28 @@ export function addBreadcrumb(
   level: 'debug' | 'info' | 'warning' | 'error' = 'info',
   data?: Record<string, any>
 ): void {
-  if (!globalErrorReporter) {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
     console.warn('ErrorExplorer: Not initialized. Install the plugin or call createErrorExplorer first.');
     return;
   }
-  globalErrorReporter.addBreadcrumb(message, category, level, data);
+  reporter.addBreadcrumb(message, category, level, data);
 }
 
 export function setUser(user: Record<string, any>): void {
-  if (!globalErrorReporter) {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
     console.warn('ErrorExplorer: Not initialized. Install the plugin or call createErrorExplorer first.');
     return;
   }
-  globalErrorReporter.setUser(user);
+  reporter.setUser(user);
 }
 
 // New advanced global functions
 
 export function getStats(): SDKStats {
-  if (!globalErrorReporter) {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
     console.warn('ErrorExplorer: Not initialized. Install the plugin or call createErrorExplorer first.');
     return {
       queueSize: 0,
@@ -232,64 +309,72 @@ export function getStats(): SDKStats {
         errorsReported: 0,
         errorsSuppressed: 0,
         retryAttempts: 0,
+        timeouts: 0,
         offlineQueueSize: 0,
         averageResponseTime: 0,
         uptime: 0
       }
     };
   }
-  return globalErrorReporter.getStats();
+  return reporter.getStats();
 }
 
 export async function flushQueue(): Promise<void> {
-  if (!globalErrorReporter) {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
     console.warn('ErrorExplorer: Not initialized. Install the plugin or call createErrorExplorer first.');
     return;
   }
-  return globalErrorReporter.flushQueue();
+  return reporter.flushQueue();
 }
 
 export function updateConfig(updates: Partial<ErrorExplorerConfig>): void {
-  if (!globalErrorReporter) {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
     console.warn('ErrorExplorer: Not initialized. Install the plugin or call createErrorExplorer first.');
     return;
   }
-  globalErrorReporter.updateConfig(updates);
+  reporter.updateConfig(updates);
 }
 
 export function clearBreadcrumbs(): void {
-  if (!globalErrorReporter) {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
     console.warn('ErrorExplorer: Not initialized. Install the plugin or call createErrorExplorer first.');
     return;
   }
-  globalErrorReporter.clearBreadcrumbs();
+  reporter.clearBreadcrumbs();
 }
 
 export function isEnabled(): boolean {
-  if (!globalErrorReporter) {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
     return false;
   }
-  return globalErrorReporter.isEnabled();
+  return reporter.isEnabled();
 }
 
 export function setContext(key: string, value: any): void {
-  if (!globalErrorReporter) {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
     console.warn('ErrorExplorer: Not initialized. Install the plugin or call createErrorExplorer first.');
     return;
   }
-  globalErrorReporter.setContext(key, value);
+  reporter.setContext(key, value);
 }
 
 export function removeContext(key: string): void {
-  if (!globalErrorReporter) {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
     console.warn('ErrorExplorer: Not initialized. Install the plugin or call createErrorExplorer first.');
     return;
   }
-  globalErrorReporter.removeContext(key);
+  reporter.removeContext(key);
 }
 
 export function getSDKHealth(): SDKHealth {
-  if (!globalErrorReporter) {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
     return {
       status: 'unhealthy',
       score: 0,
@@ -297,5 +382,77 @@ export function getSDKHealth(): SDKHealth {
       recommendations: ['Initialize ErrorExplorer plugin']
     };
   }
-  return globalErrorReporter.getSDKHealth();
-}
\ No newline at end of file
+  return reporter.getSDKHealth();
+}
+
+export function startTransaction(options: TransactionOptions): Transaction | null {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
+    console.warn('ErrorExplorer: Not initialized. Install the plugin or call createErrorExplorer first.');
+    return null;
+  }
+  return reporter.startTransaction(options);
+}
+
+export function startSpan<T>(options: SpanOptions, callback: (span: Span | null) => T): T {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
+    return callback(null);
+  }
+  return reporter.startSpan(options, callback);
+}
+
+export function setTag(key: string, value: string): void {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
+    console.warn('ErrorExplorer: Not initialized. Install the plugin or call createErrorExplorer first.');
+    return;
+  }
+  reporter.setTag(key, value);
+}
+
+// Without a reporter the callback still runs, with a scope that captures nothing
+export function withScope<T>(callback: (scope: Scope) => T): T {
+  const reporter = hub.getCurrent();
+  return reporter ? reporter.withScope(callback) : callback(new Scope());
+}
+
+export function withScopeAsync<T>(callback: (scope: Scope) => Promise<T>): Promise<T> {
+  const reporter = hub.getCurrent();
+  return reporter ? reporter.withScopeAsync(callback) : callback(new Scope());
+}
+
+export function pushScope(): Scope | null {
+  const reporter = hub.getCurrent();
+  if (!reporter) {
+    console.warn('ErrorExplorer: Not initialized. Install the plugin or call createErrorExplorer first.');
+    return null;
+  }
+  return reporter.pushScope();
+}
+
+export function popScope(): void {
+  hub.getCurrent()?.popScope();
+}
+
+// Interceptors look the reporter up per request, so instances can be instrumented before the plugin is installed
+export function instrumentAxios(instance: AxiosInstanceLike, options?: AxiosInstrumentationOptions): () => void {
+  return instrumentAxiosInstance(instance, () => hub.getCurrent(), options);
+}
+
+// Only stores created after this call are instrumented, call it right after createPinia()
+export function instrumentPinia(pinia: PiniaLike, options?: PiniaIntegrationOptions): void {
+  pinia.use(createPiniaIntegration(() => hub.getCurrent(), options));
+}
+
+// Vuex store plugin: createStore({ plugins: [createVuexPlugin()] })
+export function createVuexPlugin(options?: VuexIntegrationOptions): (store: VuexStoreLike) => void {
+  return (store) => {
+    instrumentVuexStore(store, () => hub.getCurrent(), options);
+  };
+}
+
+// Hooks look the reporter up on each navigation, so the router can be instrumented before the plugin is installed
+export function instrumentRouter(router: RouterLike): () => void {
+  return instrumentRouterIntegration(router, () => hub.getCurrent());
+}
@@ -0,0 +1,94 @@
+import { ComponentPublicInstance } from 'vue';
+import { ErrorReporter } from '../services/ErrorReporter';
+import { getComponentName } from '../utils/vue';
+
+export interface LifecycleTrackingOptions {
+  components: Array<string | RegExp>; // Component names, strings match exactly
+  slowUpdateThreshold: number; // Milliseconds
+  reportSlowComponents: boolean;
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' && performance.now ? performance.now() : Date.now();
+}
+
+/**
+ * Mixin recording mount, update and unmount breadcrumbs with their duration
+ * for the components matching one of the name patterns. Updates slower than
+ * the threshold are flagged and, when reportSlowComponents is set, sent as
+ * 'ui.vue.update' spans.
+ */
+export function createLifecycleTrackingMixin(getReporter: () => ErrorReporter | null, options: LifecycleTrackingOptions) {
+  const startTimes = new WeakMap<object, number>();
+  const trackedNames = new Map<string, boolean>();
+
+  const isTracked = (name: string): boolean => {
+    let tracked = trackedNames.get(name);
+    if (tracked === undefined) {
+      tracked = options.components.some(pattern => typeof pattern === 'string' ? pattern === name : pattern.test(name));
+      trackedNames.set(name, tracked);
+    }
+    return tracked;
+  };
+
+  const start = (instance: ComponentPublicInstance) => {
+    if (getReporter() && isTracked(getComponentName(instance.$))) {
+      startTimes.set(instance, now());
+    }
+  };
+
+  const finish = (instance: ComponentPublicInstance, lifecycle: 'mounted' | 'updated') => {
+    const startTime = startTimes.get(instance);
+    const reporter = getReporter();
+    if (startTime === undefined || !reporter) return;
+    startTimes.delete(instance);
+
+    const name = getComponentName(instance.$);
+    const duration = Math.round(now() - startTime);
+    const slow = lifecycle === 'updated' && duration > options.slowUpdateThreshold;
+
+    reporter.getBreadcrumbManager().addComponentLifecycle(name, lifecycle, slow ? { duration, slow } : { duration });
+
+    if (slow && options.reportSlowComponents && reporter.isTracingEnabled()) {
+      reportSlowUpdate(reporter, name, duration);
+    }
+  };
+
+  return {
+    beforeMount(this: ComponentPublicInstance) {
+      start(this);
+    },
+    mounted(this: ComponentPublicInstance) {
+      finish(this, 'mounted');
+    },
+    beforeUpdate(this: ComponentPublicInstance) {
+      start(this);
+    },
+    updated(this: ComponentPublicInstance) {
+      finish(this, 'updated');
+    },
+    unmounted(this: ComponentPublicInstance) {
+      startTimes.delete(this);
+      const name = getComponentName(this.$);
+      if (isTracked(name)) {
+        getReporter()?.getBreadcrumbManager().addComponentLifecycle(name, 'unmounted');
+      }
+    }
+  };
+}
+
+// The update is already over, the span is recorded with its real start time
+function reportSlowUpdate(reporter: ErrorReporter, name: string, duration: number): void {
+  const endTimestamp = Date.now();
+  const options = {
+    op: 'ui.vue.update',
+    startTimestamp: endTimestamp - duration,
+    data: { component: name, slow: true }
+  };
+  const active = reporter.getActiveTransaction();
+  const span = active
+    ? active.startChild({ ...options, description: name })
+    : reporter.startTransaction({ ...options, name });
+
+  span.finish(endTimestamp);
+}
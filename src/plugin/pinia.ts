@@ -0,0 +1,109 @@
+import { ErrorReporter } from '../services/ErrorReporter';
+import { PiniaIntegrationOptions, PiniaStoreLike } from '../types';
+import { normalizeToSize } from '../utils/normalize';
+
+function now(): number {
+  return typeof performance !== 'undefined' && performance.now ? performance.now() : Date.now();
+}
+
+function isStateStore(id: string, stateStores: boolean | Array<string | RegExp>): boolean {
+  if (typeof stateStores === 'boolean') return stateStores;
+  return stateStores.some(pattern => typeof pattern === 'string' ? pattern === id : pattern.test(id));
+}
+
+/**
+ * Build a Pinia plugin that records store actions as breadcrumbs, reports the
+ * errors they throw and attaches the state of the selected stores to every
+ * error, as `context.pinia`.
+ */
+export function createPiniaIntegration(
+  getReporter: () => ErrorReporter | null,
+  options: PiniaIntegrationOptions = {}
+): (context: { store: PiniaStoreLike }) => void {
+  const {
+    captureErrors = true,
+    actionBreadcrumbs = true,
+    stateStores = false,
+    stateMaxSize = 4096
+  } = options;
+
+  const stores = new Map<string, PiniaStoreLike>();
+  let providerReporter: ErrorReporter | null = null;
+
+  // The snapshot is taken when an error is captured, not on every state change
+  const getStateSnapshot = (reporter: ErrorReporter) => {
+    if (stores.size === 0) return undefined;
+
+    const validator = reporter.getSecurityValidator();
+    const snapshot: Record<string, any> = {};
+    stores.forEach((store, id) => {
+      const state = normalizeToSize(store.$state, stateMaxSize);
+      snapshot[id] = state === undefined ? '[Truncated]' : validator.sanitizeObject(state);
+    });
+    return snapshot;
+  };
+
+  // Stores may be created before the reporter, registration is retried on each action
+  const registerProvider = () => {
+    const reporter = getReporter();
+    if (reporter && reporter !== providerReporter && stores.size > 0) {
+      reporter.addContextProvider('pinia', () => getStateSnapshot(reporter));
+      providerReporter = reporter;
+    }
+  };
+
+  return ({ store }) => {
+    if (isStateStore(store.$id, stateStores)) {
+      stores.set(store.$id, store);
+      registerProvider();
+
+      // A disposed store is gone from Pinia, its last state must not follow every error
+      const dispose = store.$dispose;
+      if (dispose) {
+        store.$dispose = () => {
+          if (stores.get(store.$id) === store) {
+            stores.delete(store.$id);
+          }
+          dispose.call(store);
+        };
+      }
+    }
+
+    // Detached, so actions keep being recorded after the component that created the store unmounts
+    store.$onAction(({ name, store: actionStore, after, onError }) => {
+      const reporter = getReporter();
+      if (!reporter) return;
+      registerProvider();
+
+      const startTime = now();
+      const action = { store: actionStore.$id, action: name };
+
+      after(() => {
+        if (actionBreadcrumbs) {
+          reporter.addBreadcrumb(`Pinia action ${actionStore.$id}.${name}`, 'pinia.action', 'info', {
+            ...action,
+            status: 'success',
+            duration: Math.round(now() - startTime)
+          });
+        }
+      });
+
+      onError((error) => {
+        if (actionBreadcrumbs) {
+          reporter.addBreadcrumb(`Pinia action ${actionStore.$id}.${name} failed`, 'pinia.action', 'error', {
+            ...action,
+            status: 'error',
+            duration: Math.round(now() - startTime)
+          });
+        }
+
+        if (captureErrors && error instanceof Error) {
+          void reporter.captureException(error, {
+            type: 'piniaActionError',
+            pinia_action: action
+          });
+        }
+      });
+    }, true);
+  };
+}
@@ -0,0 +1,118 @@
+import { ErrorReporter } from '../services/ErrorReporter';
+import { RouteLocationLike, RouterLike } from '../types';
+import { instrumentNavigationTracing } from './tracing';
+
+// Values of vue-router's NavigationFailureType flags
+const NAVIGATION_FAILURE_TYPES: Record<number, string> = {
+  4: 'aborted',
+  8: 'cancelled',
+  16: 'duplicated'
+};
+
+const CHUNK_ERROR_PATTERN = /Loading (CSS )?chunk [\w-]+ failed|Failed to fetch dynamically imported module|error loading dynamically imported module|Importing a module script failed/i;
+
+const instrumentedRouters = new WeakSet<object>();
+
+export function isChunkLoadError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  return error.name === 'ChunkLoadError' || CHUNK_ERROR_PATTERN.test(error.message);
+}
+
+function getFailureType(failure: any): string {
+  if (typeof failure?.type === 'number') {
+    for (const [flag, type] of Object.entries(NAVIGATION_FAILURE_TYPES)) {
+      if (failure.type & Number(flag)) return type;
+    }
+  }
+  return 'unknown';
+}
+
+// The start location has no matched records, it is not a real page
+function isInitialLocation(route: RouteLocationLike): boolean {
+  return !route.matched || route.matched.length === 0;
+}
+
+function getRouteContext(route: RouteLocationLike): Record<string, any> {
+  const matched = route.matched && route.matched[route.matched.length - 1];
+
+  return {
+    name: route.name ? String(route.name) : undefined,
+    path: route.path,
+    matched: matched ? matched.path : undefined,
+    params: route.params && Object.keys(route.params).length > 0 ? { ...route.params } : undefined
+  };
+}
+
+/**
+ * Record navigations, navigation failures and router errors, and keep the
+ * current route as context of every error. Returns a function that removes the hooks.
+ */
+export function instrumentRouterIntegration(router: RouterLike, getReporter: () => ErrorReporter | null): () => void {
+  if (instrumentedRouters.has(router)) {
+    return () => {};
+  }
+  instrumentedRouters.add(router);
+
+  const removers: Array<() => void> = [];
+
+  const setCurrentRoute = (route: RouteLocationLike) => {
+    getReporter()?.setContext('route', getRouteContext(route));
+  };
+
+  if (router.currentRoute && !isInitialLocation(router.currentRoute.value)) {
+    setCurrentRoute(router.currentRoute.value);
+  }
+
+  removers.push(router.afterEach((to, from, failure) => {
+    const reporter = getReporter();
+    if (!reporter) return;
+
+    const fromPath = isInitialLocation(from) ? 'initial' : from.fullPath;
+
+    if (failure) {
+      const failureType = getFailureType(failure);
+      reporter.addBreadcrumb(
+        `Navigation ${failureType}: ${fromPath} → ${to.fullPath}`,
+        'navigation',
+        failureType === 'duplicated' ? 'info' : 'warning',
+        { from: fromPath, to: to.fullPath, failure_type: failureType }
+      );
+      return;
+    }
+
+    if (to.redirectedFrom) {
+      reporter.addBreadcrumb(
+        `Navigation: ${fromPath} → ${to.fullPath} (redirected from ${to.redirectedFrom.fullPath})`,
+        'navigation',
+        'info',
+        { from: fromPath, to: to.fullPath, redirected_from: to.redirectedFrom.fullPath }
+      );
+    } else {
+      reporter.getBreadcrumbManager().addNavigation(fromPath, to.fullPath);
+    }
+
+    setCurrentRoute(to);
+  }));
+
+  if (router.onError) {
+    removers.push(router.onError((error, to) => {
+      const reporter = getReporter();
+      if (!reporter || !(error instanceof Error)) return;
+
+      const chunkError = isChunkLoadError(error);
+      void reporter.captureException(error, {
+        type: chunkError ? 'chunkLoadError' : 'routerError',
+        navigation: to ? { to: to.fullPath } : undefined
+      });
+    }));
+  }
+
+  removers.push(instrumentNavigationTracing(router, getReporter));
+
+  return () => {
+    for (const remove of removers) {
+      remove();
+    }
+    instrumentedRouters.delete(router);
+  };
+}
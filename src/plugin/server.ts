@@ -0,0 +1,76 @@
+import { ErrorReporter } from '../services/ErrorReporter';
+import { scrubUrl } from '../services/HttpInstrumentation';
+import { Scope } from '../services/Scope';
+import { ErrorExplorerConfig, UseErrorExplorerResult } from '../types';
+import { createErrorExplorerAPI } from './index';
+
+// Browser-only features, and the ones that keep events in the process
+const SERVER_OVERRIDES: Partial<ErrorExplorerConfig> = {
+  enableOfflineSupport: false,
+  enableBatching: false,
+  enableUnloadFlush: false,
+  enableWebVitals: false,
+  enableReplay: false,
+  captureUnhandledRejections: false,
+  captureHttpRequests: false,
+  captureClicks: false,
+  captureFormSubmits: false,
+  captureInputChanges: false,
+  traceVueComponents: false
+};
+
+export interface ServerRequestInfo {
+  url?: string;
+  method?: string;
+  headers?: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Create the reporter of a server. Create it once and share it: its rate
+ * limits, quota and circuit breaker then apply across requests. Each request
+ * gets its own scope with createRequestScope, so concurrent requests never
+ * share user, context or breadcrumbs.
+ */
+export function createServerReporter(config: ErrorExplorerConfig): ErrorReporter {
+  const reporter = new ErrorReporter({ ...config, ...SERVER_OVERRIDES });
+  reporter.setContext('runtime', { ssr: true });
+  return reporter;
+}
+
+// A copy of the reporter's scope for one request, with the request in its context
+export function createRequestScope(reporter: ErrorReporter, request?: ServerRequestInfo): Scope {
+  const scope = reporter.getScope().clone();
+
+  if (request) {
+    const userAgent = request.headers?.['user-agent'];
+    scope.setContext('request', {
+      url: request.url ? scrubUrl(request.url, reporter.getSecurityValidator()) : undefined,
+      method: request.method,
+      user_agent: Array.isArray(userAgent) ? userAgent[0] : userAgent
+    });
+  }
+
+  return scope;
+}
+
+/**
+ * The shared reporter as seen from one request: every method runs in the
+ * request scope. Bound to the request's app with bindErrorExplorer(), it is
+ * what the integrations, ErrorBoundary and useErrorExplorer() find there.
+ */
+export function createRequestReporter(reporter: ErrorReporter, scope: Scope): ErrorReporter {
+  return new Proxy(reporter, {
+    get(target, key) {
+      const value = Reflect.get(target, key, target);
+      if (typeof value !== 'function') return value;
+
+      return (...args: unknown[]) => target.runWithScope(scope, () => value.apply(target, args));
+    }
+  });
+}
+
+// The API of useErrorExplorer() for one request
+export function createRequestAPI(reporter: ErrorReporter, scope: Scope): UseErrorExplorerResult {
+  const requestReporter = createRequestReporter(reporter, scope);
+  return createErrorExplorerAPI(() => requestReporter);
+}
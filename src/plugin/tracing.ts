@@ -0,0 +1,87 @@
+import { ComponentPublicInstance, nextTick } from 'vue';
+import { ErrorReporter } from '../services/ErrorReporter';
+import { Span, Transaction } from '../services/Tracer';
+import { RouteLocationLike, RouterLike } from '../types';
+import { getComponentName } from '../utils/vue';
+
+// Parameterized path of the matched route, so /users/1 and /users/2 share a transaction name
+function getTransactionName(route: RouteLocationLike): string {
+  const matched = route.matched && route.matched[route.matched.length - 1];
+  return matched ? matched.path : route.path;
+}
+
+export function instrumentNavigationTracing(router: RouterLike, getReporter: () => ErrorReporter | null): () => void {
+  let navigation: Transaction | null = null;
+
+  const removeBeforeEach = router.beforeEach((to, from) => {
+    const reporter = getReporter();
+    if (!reporter || !reporter.isTracingEnabled()) return;
+
+    // A new navigation supersedes one that never completed
+    if (navigation && !navigation.isFinished()) {
+      navigation.setStatus('cancelled');
+      navigation.finish();
+    }
+
+    navigation = reporter.startTransaction({
+      name: getTransactionName(to),
+      op: 'navigation',
+      tags: {
+        'route.from': from.fullPath,
+        'route.to': to.fullPath
+      }
+    });
+  });
+
+  const removeAfterEach = router.afterEach((to, from, failure) => {
+    const transaction = navigation;
+    if (!transaction) return;
+    navigation = null;
+
+    if (failure) {
+      transaction.setStatus('cancelled');
+    }
+
+    // Redirects end on a different route than the one the navigation started with
+    transaction.setName(getTransactionName(to));
+
+    // Let the new route's components render and mount inside the transaction
+    nextTick(() => transaction.finish());
+  });
+
+  return () => {
+    removeBeforeEach();
+    removeAfterEach();
+  };
+}
+
+export function createComponentTracingMixin(getReporter: () => ErrorReporter | null) {
+  const mountSpans = new WeakMap<object, Span>();
+
+  const finishSpan = (instance: object) => {
+    const span = mountSpans.get(instance);
+    if (span) {
+      span.finish();
+      mountSpans.delete(instance);
+    }
+  };
+
+  return {
+    beforeMount(this: ComponentPublicInstance) {
+      const reporter = getReporter();
+      if (!reporter || !reporter.isTracingEnabled()) return;
+
+      // Only as part of a navigation or a user transaction, a mount on its own is not worth a transaction
+      const active = reporter.getActiveTransaction();
+      if (!active) return;
+
+      mountSpans.set(this, active.startChild({ op: 'ui.vue.mount', description: getComponentName(this.$) }));
+    },
+    mounted(this: ComponentPublicInstance) {
+      finishSpan(this);
+    },
+    unmounted(this: ComponentPublicInstance) {
+      finishSpan(this);
+    }
+  };
+}
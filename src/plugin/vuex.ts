@@ -0,0 +1,125 @@
+import { ErrorReporter } from '../services/ErrorReporter';
+import { VuexActionLike, VuexIntegrationOptions, VuexStoreLike } from '../types';
+import { normalizeToSize } from '../utils/normalize';
+
+function now(): number {
+  return typeof performance !== 'undefined' && performance.now ? performance.now() : Date.now();
+}
+
+function describePayload(payload: any, maxSize: number): Record<string, any> {
+  if (payload === undefined) return {};
+  return { payload: normalizeToSize(payload, maxSize) ?? '[Truncated]' };
+}
+
+function selectState(state: Record<string, any>, attachState: true | Array<string | RegExp>): Record<string, any> {
+  if (attachState === true) return state;
+
+  const selected: Record<string, any> = {};
+  for (const key of Object.keys(state)) {
+    if (attachState.some(pattern => typeof pattern === 'string' ? pattern === key : pattern.test(key))) {
+      selected[key] = state[key];
+    }
+  }
+  return selected;
+}
+
+/**
+ * Subscribe to the mutations and actions of a Vuex store: both become
+ * breadcrumbs, failed actions are reported, and the selected part of the
+ * state is attached to every error as `context.vuex`. Returns a function
+ * that removes the subscriptions.
+ */
+export function instrumentVuexStore(
+  store: VuexStoreLike,
+  getReporter: () => ErrorReporter | null,
+  options: VuexIntegrationOptions = {}
+): () => void {
+  const {
+    captureErrors = true,
+    mutationBreadcrumbs = true,
+    actionBreadcrumbs = true,
+    payloadMaxSize = 1024,
+    attachState = false,
+    stateMaxSize = 4096
+  } = options;
+
+  const actionStarts = new WeakMap<VuexActionLike, number>();
+  let removeProvider: (() => void) | null = null;
+  let providerReporter: ErrorReporter | null = null;
+
+  // The store is usually created before the reporter, so registration waits for the first commit or dispatch
+  const getReporterWithState = (): ErrorReporter | null => {
+    const reporter = getReporter();
+    if (reporter && attachState !== false && reporter !== providerReporter) {
+      removeProvider?.();
+      removeProvider = reporter.addContextProvider('vuex', () =>
+        normalizeToSize(selectState(store.state, attachState), stateMaxSize) ?? '[Truncated]'
+      );
+      providerReporter = reporter;
+    }
+    return reporter;
+  };
+
+  const getDuration = (action: VuexActionLike) => {
+    const startTime = actionStarts.get(action);
+    actionStarts.delete(action);
+    return startTime === undefined ? undefined : Math.round(now() - startTime);
+  };
+
+  const unsubscribeMutations = store.subscribe((mutation) => {
+    const reporter = getReporterWithState();
+    if (!reporter || !mutationBreadcrumbs) return;
+
+    reporter.addBreadcrumb(`Vuex mutation ${mutation.type}`, 'vuex.mutation', 'info', {
+      type: mutation.type,
+      ...describePayload(mutation.payload, payloadMaxSize)
+    });
+  });
+
+  const unsubscribeActions = store.subscribeAction({
+    before: (action) => {
+      if (getReporterWithState()) {
+        actionStarts.set(action, now());
+      }
+    },
+    after: (action) => {
+      const reporter = getReporter();
+      const duration = getDuration(action);
+      if (!reporter || !actionBreadcrumbs) return;
+
+      reporter.addBreadcrumb(`Vuex action ${action.type}`, 'vuex.action', 'info', {
+        type: action.type,
+        status: 'success',
+        duration,
+        ...describePayload(action.payload, payloadMaxSize)
+      });
+    },
+    error: (action, _state, error) => {
+      const reporter = getReporter();
+      const duration = getDuration(action);
+      if (!reporter) return;
+
+      if (actionBreadcrumbs) {
+        reporter.addBreadcrumb(`Vuex action ${action.type} failed`, 'vuex.action', 'error', {
+          type: action.type,
+          status: 'error',
+          duration,
+          ...describePayload(action.payload, payloadMaxSize)
+        });
+      }
+
+      if (captureErrors && error instanceof Error) {
+        void reporter.captureException(error, {
+          type: 'vuexActionError',
+          vuex_action: { type: action.type }
+        });
+      }
+    }
+  });
+
+  return () => {
+    unsubscribeMutations();
+    unsubscribeActions();
+    removeProvider?.();
+  };
+}
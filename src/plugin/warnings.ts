@@ -0,0 +1,44 @@
+import { ComponentPublicInstance } from 'vue';
+import { ErrorReporter } from '../services/ErrorReporter';
+import { VueErrorInfo } from '../types';
+import { getComponentName } from '../utils/vue';
+
+export type WarnHandler = (msg: string, instance: ComponentPublicInstance | null, trace: string) => void;
+
+/**
+ * Build an app.config.warnHandler that records Vue warnings as breadcrumbs
+ * and, when reportWarnings is set, as warning-level events. Repeated warnings
+ * share a fingerprint, so the rate limiter drops the duplicates.
+ */
+export function createWarnHandler(
+  getReporter: () => ErrorReporter | null,
+  reportWarnings: boolean,
+  originalHandler?: WarnHandler
+): WarnHandler {
+  return (msg, instance, trace) => {
+    const reporter = getReporter();
+
+    if (reporter) {
+      const vueInfo: VueErrorInfo = {
+        componentName: getComponentName(instance?.$),
+        componentTrace: trace ? trace.trim() : undefined
+      };
+
+      reporter.addBreadcrumb(`Vue warning: ${msg}`, 'vue.warning', 'warning', vueInfo);
+
+      if (reportWarnings) {
+        void reporter.captureMessage(`[Vue warn]: ${msg}`, 'warning', {
+          type: 'vueWarning',
+          vue: vueInfo
+        });
+      }
+    }
+
+    if (originalHandler) {
+      originalHandler(msg, instance, trace);
+    } else {
+      // Vue stops logging warnings itself once a handler is set
+      console.warn(`[Vue warn]: ${msg}${trace}`);
+    }
+  };
+}
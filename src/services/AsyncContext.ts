@@ -0,0 +1,38 @@
+// The part of AsyncLocalStorage (node:async_hooks) the scopes need
+export interface AsyncContextStorage<T> {
+  getStore(): T | undefined;
+  run<R>(store: T, callback: () => R): R;
+}
+
+export type AsyncContextStorageClass = new <T>() => AsyncContextStorage<T>;
+
+let storageClass: AsyncContextStorageClass | null | undefined;
+
+// Node 20.16+ and runtimes with a global AsyncLocalStorage (edge workers) are detected
+function detectStorageClass(): AsyncContextStorageClass | null {
+  const globalStorage = (globalThis as any).AsyncLocalStorage;
+  if (typeof globalStorage === 'function') return globalStorage;
+
+  try {
+    const asyncHooks = (globalThis as any).process?.getBuiltinModule?.('node:async_hooks');
+    return asyncHooks?.AsyncLocalStorage ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Set the AsyncLocalStorage class used by reporters created afterwards, e.g.
+ * on Node versions that cannot be detected. null turns async context off.
+ */
+export function setAsyncContextStorage(storage: AsyncContextStorageClass | null): void {
+  storageClass = storage;
+}
+
+// null in browsers: there is no way to follow an async operation there
+export function createAsyncContextStorage<T>(): AsyncContextStorage<T> | null {
+  if (storageClass === undefined) {
+    storageClass = detectStorageClass();
+  }
+  return storageClass ? new storageClass<T>() : null;
+}
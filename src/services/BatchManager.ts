@@ -1,4 +1,4 @@
-import { ErrorData } from '../types';
+import { ErrorData, EventPayload } from '../types';
 
 export interface BatchConfig {
   enabled: boolean;
@@ -9,14 +9,36 @@ export interface BatchConfig {
 
 export interface BatchedErrorData {
   errors: ErrorData[];
+  events?: Exclude<EventPayload, ErrorData>[]; // Non-error payloads, identified by their event_type
   batchId: string;
   timestamp: string;
-  count: number;
+  count: number; // Errors only, the events are not counted
+}
+
+export function isErrorData(payload: EventPayload): payload is ErrorData {
+  return !('event_type' in payload);
+}
+
+export function createBatch(payloads: EventPayload[], batchId: string): BatchedErrorData {
+  const errors = payloads.filter(isErrorData);
+  const batch: BatchedErrorData = {
+    errors,
+    batchId,
+    timestamp: new Date().toISOString(),
+    count: errors.length
+  };
+
+  const events = payloads.filter((payload): payload is Exclude<EventPayload, ErrorData> => !isErrorData(payload));
+  if (events.length > 0) {
+    batch.events = events;
+  }
+
+  return batch;
 }
 
 export class BatchManager {
   private config: BatchConfig;
-  private currentBatch: ErrorData[] = [];
+  private currentBatch: EventPayload[] = [];
   private batchTimer: NodeJS.Timeout | null = null;
   private sendFunction: ((data: BatchedErrorData) => Promise<void>) | null = null;
   private batchCounter = 0;
@@ -36,21 +58,19 @@ export class BatchManager {
   }
 
   async addError(errorData: ErrorData): Promise<void> {
+    return this.addEvent(errorData);
+  }
+
+  async addEvent(payload: EventPayload): Promise<void> {
     if (!this.config.enabled || !this.sendFunction) {
       // If batching disabled, send immediately
       if (this.sendFunction) {
-        const batch: BatchedErrorData = {
-          errors: [errorData],
-          batchId: this.generateBatchId(),
-          timestamp: new Date().toISOString(),
-          count: 1
-        };
-        await this.sendFunction(batch);
+        await this.sendFunction(createBatch([payload], this.generateBatchId()));
       }
       return;
     }
 
-    this.currentBatch.push(errorData);
+    this.currentBatch.push(payload);
 
     // Check if we should send the batch immediately
     if (this.shouldSendBatch()) {
@@ -72,12 +92,7 @@ export class BatchManager {
   }
 
   private estimateBatchSize(): number {
-    const batchData: BatchedErrorData = {
-      errors: this.currentBatch,
-      batchId: 'estimate',
-      timestamp: new Date().toISOString(),
-      count: this.currentBatch.length
-    };
+    const batchData = createBatch(this.currentBatch, 'estimate');
 
     return new Blob([JSON.stringify(batchData)]).size;
   }
@@ -93,12 +108,7 @@ export class BatchManager {
       return;
     }
 
-    const batch: BatchedErrorData = {
-      errors: [...this.currentBatch],
-      batchId: this.generateBatchId(),
-      timestamp: new Date().toISOString(),
-      count: this.currentBatch.length
-    };
+    const batch = createBatch(this.currentBatch, this.generateBatchId());
 
     // Clear current batch
     this.currentBatch = [];
@@ -126,6 +136,19 @@ export class BatchManager {
     }
   }
 
+  // Hand over pending errors without sending them, used when the page is unloading
+  drain(): EventPayload[] {
+    const pending = this.currentBatch;
+    this.currentBatch = [];
+
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+
+    return pending;
+  }
+
   private generateBatchId(): string {
     this.batchCounter++;
     const timestamp = Date.now();
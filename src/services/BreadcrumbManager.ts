@@ -29,6 +29,20 @@ export class BreadcrumbManager {
     this.breadcrumbs = [];
   }
 
+  // Oldest breadcrumbs are dropped when the limit shrinks
+  setMaxBreadcrumbs(maxBreadcrumbs: number): void {
+    this.maxBreadcrumbs = maxBreadcrumbs;
+    if (this.breadcrumbs.length > maxBreadcrumbs) {
+      this.breadcrumbs = this.breadcrumbs.slice(-maxBreadcrumbs);
+    }
+  }
+
+  clone(): BreadcrumbManager {
+    const copy = new BreadcrumbManager(this.maxBreadcrumbs);
+    copy.breadcrumbs = [...this.breadcrumbs];
+    return copy;
+  }
+
   addNavigation(from: string, to: string): void {
     this.addBreadcrumb({
       message: `Navigation: ${from} → ${to}`,
@@ -54,27 +68,29 @@ export class BreadcrumbManager {
     });
   }
 
-  addHttpRequest(method: string, url: string, statusCode?: number): void {
+  addHttpRequest(method: string, url: string, statusCode?: number, data?: Record<string, any>): void {
     this.addBreadcrumb({
       message: `${method} ${url}${statusCode ? ` → ${statusCode}` : ''}`,
       category: 'http',
-      level: statusCode && statusCode >= 400 ? 'error' : 'info',
+      level: (statusCode && statusCode >= 400) || data?.error ? 'error' : 'info',
       data: {
         method,
         url,
-        status_code: statusCode
+        status_code: statusCode,
+        ...data
       }
     });
   }
 
-  addComponentLifecycle(componentName: string, lifecycle: string): void {
+  addComponentLifecycle(componentName: string, lifecycle: string, data?: Record<string, any>): void {
     this.addBreadcrumb({
-      message: `${componentName}: ${lifecycle}`,
+      message: `${componentName}: ${lifecycle}${data?.duration !== undefined ? ` (${data.duration}ms)` : ''}`,
       category: 'vue.lifecycle',
-      level: 'debug',
+      level: data?.slow ? 'warning' : 'debug',
       data: {
         component: componentName,
-        lifecycle
+        lifecycle,
+        ...data
       }
     });
   }
@@ -1,6 +1,7 @@
-// Remove axios import - we'll use fetch instead
-import { ErrorExplorerConfig, ErrorData, RequestData, BrowserData, UserContext, SDKStats, SDKHealth, QuotaStats } from '../types';
+import { ErrorExplorerConfig, ErrorData, RequestData, BrowserData, UserContext, SDKStats, SDKHealth, QuotaStats, Transport, TransportRequest, TransportResponse, EventPayload, PerformanceData, WebVitalsData, HttpRequestInfo } from '../types';
 import { BreadcrumbManager } from './BreadcrumbManager';
+import { Scope } from './Scope';
+import { AsyncContextStorage, createAsyncContextStorage } from './AsyncContext';
 import { RateLimiter } from './RateLimiter';
 import { OfflineManager } from './OfflineManager';
 import { RetryManager } from './RetryManager';
@@ -10,13 +11,25 @@ import { SDKMonitor } from './SDKMonitor';
 import { CircuitBreaker } from './CircuitBreaker';
 import { CompressionService, CompressionConfig } from './CompressionService';
 import { BatchManager, BatchConfig, BatchedErrorData } from './BatchManager';
+import { UnloadManager } from './UnloadManager';
+import { SourceMapResolver } from './SourceMapResolver';
+import { Fingerprinter } from './Fingerprinter';
+import { Tracer, Transaction, TransactionOptions, Span, SpanOptions } from './Tracer';
+import { WebVitalsCollector, WebVitalsReport } from './WebVitalsCollector';
+import { ReplayRecorder } from './ReplayRecorder';
+import { HttpInstrumentation, claimRequest } from './HttpInstrumentation';
+import { InteractionTracker } from './InteractionTracker';
+import { subscribeGlobalHandlers } from './GlobalHandlers';
+import { createTransport } from '../transports';
+import { TimeoutError, HttpError } from '../errors';
+import { findCulpritFrame } from '../utils/stackTrace';
+import { extractLinkedExceptions } from '../utils/errorChain';
 import { generateSessionId, extractErrorInfo, getBrowserInfo, getPerformanceInfo, safeStringify } from '../utils/performance';
 
 export class ErrorReporter {
-  private config: Required<Omit<ErrorExplorerConfig, 'userId' | 'userEmail' | 'beforeSend' | 'customData' | 'commitHash'>> & 
-    Pick<ErrorExplorerConfig, 'userId' | 'userEmail' | 'beforeSend' | 'customData' | 'commitHash'>;
+  private config: Required<Omit<ErrorExplorerConfig, 'userId' | 'userEmail' | 'beforeSend' | 'getFingerprint' | 'customData' | 'commitHash'>> & 
+    Pick<ErrorExplorerConfig, 'userId' | 'userEmail' | 'beforeSend' | 'getFingerprint' | 'customData' | 'commitHash'>;
   
-  private breadcrumbManager: BreadcrumbManager;
   private rateLimiter: RateLimiter;
   private offlineManager: OfflineManager;
   private retryManager: RetryManager;
@@ -26,15 +39,28 @@ export class ErrorReporter {
   private circuitBreaker: CircuitBreaker;
   private compressionService: CompressionService;
   private batchManager: BatchManager;
+  private unloadManager: UnloadManager;
+  private sourceMapResolver: SourceMapResolver;
+  private fingerprinter: Fingerprinter;
+  private tracer: Tracer;
+  private webVitalsCollector: WebVitalsCollector;
+  private replayRecorder: ReplayRecorder;
+  private httpInstrumentation: HttpInstrumentation;
+  private interactionTracker: InteractionTracker;
+  private transport: Transport;
   
-  // Removed httpClient - using fetch directly
-  private userContext: UserContext = {};
-  private globalContext: Record<string, any> = {};
+  // The root scope first, then the ones pushed for the running operations
+  private scopes: Scope[] = [];
+  // Where available, the scopes of an async operation follow it across awaits
+  private asyncScopes: AsyncContextStorage<Scope[]> | null = createAsyncContextStorage<Scope[]>();
+  private contextProviders: Map<string, () => any> = new Map();
+  private removeGlobalHandlers: (() => void) | null = null;
   private sessionId: string;
   private isInitialized: boolean = false;
 
   constructor(config: ErrorExplorerConfig) {
     this.sessionId = generateSessionId();
+    this.transport = createTransport(config.transport);
     
     // Set up configuration with defaults
     this.config = {
@@ -83,6 +109,68 @@ export class ErrorReporter {
       batchTimeout: 5000,
       maxBatchPayloadSize: 100 * 1024,
       
+      // Transport defaults
+      transport: 'fetch',
+      
+      // Unload delivery defaults
+      enableUnloadFlush: true,
+      
+      // Source map defaults - disabled by default, resolving fetches scripts and maps
+      enableSourceMaps: false,
+      sourceMaps: {},
+      sourceMapContextLines: 5,
+      
+      // Error chain defaults
+      maxErrorChainDepth: 5,
+      
+      // Fingerprint defaults
+      fingerprintRules: [],
+      
+      // Tracing defaults - disabled until a sample rate is set
+      tracesSampleRate: 0,
+      traceVueComponents: true,
+      enableWebVitals: false,
+      
+      // Session replay defaults - opt-in, inputs are always masked unless allowed
+      enableReplay: false,
+      replayBufferDuration: 30000, // 30 seconds
+      replayMaxEvents: 500,
+      replayMaxSize: 64 * 1024, // 64KB
+      replayMaskAllInputs: true,
+      
+      // HTTP instrumentation defaults
+      captureHttpRequests: false,
+      captureFailedRequests: false,
+      failedRequestStatusCodes: [[500, 599]],
+      httpIgnoreUrls: [],
+      
+      // User interaction breadcrumbs defaults
+      captureClicks: false,
+      captureFormSubmits: true,
+      captureInputChanges: false,
+      userInteractionThrottle: 500,
+      
+      // Vue warning defaults
+      captureVueWarnings: false,
+      reportVueWarnings: false,
+      
+      // SSR hydration defaults
+      captureHydrationMismatches: false,
+      
+      // Vue error context defaults
+      componentTraceDepth: 10,
+      propsMaxDepth: 3,
+      propsMaxBreadth: 20,
+      propsMaxStringLength: 200,
+      propsMaxSize: 4096,
+      propsAllowlist: [],
+      propsDenylist: [],
+      
+      // Component lifecycle tracking defaults
+      trackComponents: [],
+      slowUpdateThreshold: 50,
+      reportSlowComponents: false,
+      
       ...config
     };
 
@@ -92,7 +180,7 @@ export class ErrorReporter {
 
   private initializeServices(): void {
     // Initialize all services
-    this.breadcrumbManager = new BreadcrumbManager(this.config.maxBreadcrumbs);
+    this.scopes = [new Scope(new BreadcrumbManager(this.config.maxBreadcrumbs), this)];
     
     this.rateLimiter = new RateLimiter({
       maxRequests: this.config.maxRequestsPerMinute,
@@ -102,7 +190,8 @@ export class ErrorReporter {
     
     this.offlineManager = new OfflineManager(
       this.config.maxOfflineQueueSize,
-      this.config.offlineQueueMaxAge
+      this.config.offlineQueueMaxAge,
+      this.config.projectName
     );
     
     this.retryManager = new RetryManager({
@@ -119,12 +208,35 @@ export class ErrorReporter {
       maxPayloadSize: this.config.maxPayloadSize
     });
     
+    // Masks recorded text with the same rules used to sanitize payloads
+    this.replayRecorder = new ReplayRecorder({
+      enabled: this.config.enabled && this.config.enableReplay,
+      bufferDuration: this.config.replayBufferDuration,
+      maxEvents: this.config.replayMaxEvents,
+      maxSize: this.config.replayMaxSize,
+      maskAllInputs: this.config.replayMaskAllInputs
+    }, this.securityValidator);
+    
+    // The webhook is always ignored, reporting an error must not record a request
+    this.httpInstrumentation = new HttpInstrumentation({
+      ignoreUrls: [this.config.webhookUrl, ...this.config.httpIgnoreUrls],
+      failedStatusCodes: this.config.failedRequestStatusCodes
+    }, this.securityValidator);
+    
+    this.interactionTracker = new InteractionTracker({
+      click: this.config.captureClicks,
+      submit: this.config.captureFormSubmits,
+      input: this.config.captureInputChanges,
+      throttle: this.config.userInteractionThrottle
+    }, this.securityValidator);
+    
     this.quotaManager = new QuotaManager({
       dailyLimit: this.config.dailyLimit,
       monthlyLimit: this.config.monthlyLimit,
       payloadSizeLimit: this.config.maxPayloadSize,
       burstLimit: this.config.burstLimit,
-      burstWindowMs: this.config.burstWindowMs
+      burstWindowMs: this.config.burstWindowMs,
+      storageNamespace: this.config.projectName
     });
     
     this.sdkMonitor = new SDKMonitor();
@@ -149,15 +261,60 @@ export class ErrorReporter {
       maxPayloadSize: this.config.maxBatchPayloadSize
     });
     
+    // Created before the unload manager so its report is queued before the unload flush runs
+    this.webVitalsCollector = new WebVitalsCollector({
+      enabled: this.config.enabled && this.config.enableWebVitals
+    });
+    
+    this.unloadManager = new UnloadManager({
+      enabled: this.config.enableUnloadFlush,
+      url: () => this.config.webhookUrl
+    });
+    
+    this.sourceMapResolver = new SourceMapResolver({
+      enabled: this.config.enableSourceMaps,
+      contextLines: this.config.sourceMapContextLines,
+      sourceMaps: this.config.sourceMaps,
+      timeout: this.config.timeout
+    });
+    
+    this.fingerprinter = new Fingerprinter({
+      rules: this.config.fingerprintRules,
+      callback: this.config.getFingerprint
+    });
+    
+    this.tracer = new Tracer({
+      tracesSampleRate: this.config.tracesSampleRate
+    });
+    
     // Set up offline manager's send function
-    this.offlineManager.setSendFunction((errorData) => this.sendErrorDirectly(errorData));
+    this.offlineManager.setSendFunction((payload) => this.sendEventDirectly(payload));
     
     // Set up batch manager's send function
     this.batchManager.setSendFunction((batchData) => this.sendBatchDirectly(batchData));
+    
+    // Set up tracer's send function
+    this.tracer.setSendFunction((transaction) => {
+      void this.captureTransaction(transaction);
+    });
+    
+    // Set up web vitals collector's send function
+    this.webVitalsCollector.setSendFunction((report) => {
+      void this.captureWebVitals(report);
+    });
+    
+    // Set up HTTP instrumentation's handler
+    this.httpInstrumentation.setHandler((request) => this.handleHttpRequest(request));
+    
+    // Set up interaction tracker's handler
+    this.interactionTracker.setHandler((event, target, data) => {
+      this.getBreadcrumbManager().addUserInteraction(event, target, data);
+    });
+    
+    // Set up unload manager's flush function
+    this.unloadManager.setFlushFunction(() => this.flushOnUnload());
   }
 
-  // Removed setupHttpClient method - using fetch directly
-
   private initialize(): void {
     if (!this.config.enabled) {
       return;
@@ -189,11 +346,16 @@ export class ErrorReporter {
     
     // Set initial custom data
     if (this.config.customData) {
-      this.globalContext = { ...this.config.customData };
+      Object.entries(this.config.customData).forEach(([key, value]) => this.getScope().setContext(key, value));
     }
 
     this.isInitialized = true;
 
+    // Deliver errors persisted by a previous session
+    if (this.config.enableOfflineSupport) {
+      void this.offlineManager.flushQueue();
+    }
+
     if (this.config.debug) {
       console.log('[ErrorExplorer] Initialized successfully', {
         config: this.getPublicConfig(),
@@ -205,60 +367,167 @@ export class ErrorReporter {
   private setupGlobalHandlers(): void {
     if (typeof window === 'undefined') return;
 
-    // Handle unhandled promise rejections
-    if (this.config.captureUnhandledRejections) {
-      window.addEventListener('unhandledrejection', (event) => {
+    // Shared by the reporters of the page, an uncaught error is only reported by the first one
+    this.removeGlobalHandlers = subscribeGlobalHandlers({
+      onError: (event) => {
+        if (event.error) {
+          this.captureException(event.error, {
+            type: 'globalError',
+            filename: event.filename,
+            lineno: event.lineno,
+            colno: event.colno
+          });
+        }
+      },
+      // Handle unhandled promise rejections
+      onUnhandledRejection: this.config.captureUnhandledRejections ? (event) => {
         const error = event.reason instanceof Error ? event.reason : new Error(String(event.reason));
         this.captureException(error, { type: 'unhandledRejection' });
-      });
-    }
-
-    // Handle global errors
-    window.addEventListener('error', (event) => {
-      if (event.error) {
-        this.captureException(event.error, {
-          type: 'globalError',
-          filename: event.filename,
-          lineno: event.lineno,
-          colno: event.colno
-        });
-      }
+      } : undefined,
+      // Capture console errors if enabled
+      onConsole: this.config.captureConsoleErrors ? (level, args) => {
+        this.getBreadcrumbManager().addConsoleLog(level, args.join(' '), args);
+      } : undefined
     });
 
-    // Capture console errors if enabled
-    if (this.config.captureConsoleErrors) {
-      this.setupConsoleCapture();
+    // Record clicks, form submits and input changes as breadcrumbs
+    this.interactionTracker.start();
+
+    // Record fetch and XMLHttpRequest calls if enabled
+    if (this.config.captureHttpRequests) {
+      this.httpInstrumentation.instrument();
     }
   }
 
-  private setupConsoleCapture(): void {
-    const originalError = console.error;
-    console.error = (...args: any[]) => {
-      this.breadcrumbManager.addConsoleLog('error', args.join(' '), args);
-      originalError.apply(console, args);
-    };
+  private handleHttpRequest(request: HttpRequestInfo): void {
+    this.getBreadcrumbManager().addHttpRequest(request.method, request.url, request.status_code, {
+      duration: request.duration,
+      ...(request.error ? { error: request.error } : {})
+    });
 
-    const originalWarn = console.warn;
-    console.warn = (...args: any[]) => {
-      this.breadcrumbManager.addConsoleLog('warning', args.join(' '), args);
-      originalWarn.apply(console, args);
-    };
+    if (this.config.captureFailedRequests &&
+        request.status_code !== undefined &&
+        this.httpInstrumentation.isFailedStatus(request.status_code)) {
+      void this.captureException(new HttpError(request.status_code, request.method, request.url), {
+        type: 'httpError',
+        http: request
+      });
+    }
   }
 
   setUser(user: UserContext): void {
-    this.userContext = { ...this.userContext, ...user };
+    const scope = this.getScope();
+    scope.setUser(user);
     
     if (this.config.debug) {
-      console.log('[ErrorExplorer] User context updated:', this.userContext);
+      console.log('[ErrorExplorer] User context updated:', scope.getUser());
     }
   }
 
   setContext(key: string, value: any): void {
-    this.globalContext[key] = value;
+    this.getScope().setContext(key, value);
   }
 
   removeContext(key: string): void {
-    delete this.globalContext[key];
+    this.getScope().removeContext(key);
+  }
+
+  setTag(key: string, value: string): void {
+    this.getScope().setTag(key, value);
+  }
+
+  // The scopes of the running async operation, the reporter's own otherwise
+  private getScopeStack(): Scope[] {
+    return this.asyncScopes?.getStore() ?? this.scopes;
+  }
+
+  // The innermost scope: user, context, tags and breadcrumbs are set there
+  getScope(): Scope {
+    const scopes = this.getScopeStack();
+    return scopes[scopes.length - 1]!;
+  }
+
+  // Start a copy of the current scope; popScope() returns to the previous one
+  pushScope(): Scope {
+    const scope = this.getScope().clone();
+    this.getScopeStack().push(scope);
+    return scope;
+  }
+
+  popScope(): void {
+    const scopes = this.getScopeStack();
+    if (scopes.length > 1) {
+      scopes.pop();
+    }
+  }
+
+  // Run a synchronous callback in a copy of the current scope
+  withScope<T>(callback: (scope: Scope) => T): T {
+    const scope = this.getScope().clone();
+    return this.runWithScope(scope, () => callback(scope));
+  }
+
+  // Run a callback with a given scope as the current one, e.g. the scope of a server request
+  runWithScope<T>(scope: Scope, callback: () => T): T {
+    const scopes = this.getScopeStack();
+
+    // Already current, or enclosing the current one: the callback runs where it is
+    if (scopes.includes(scope)) {
+      return callback();
+    }
+
+    if (this.asyncScopes) {
+      return this.asyncScopes.run([...scopes, scope], callback);
+    }
+
+    scopes.push(scope);
+    try {
+      return callback();
+    } finally {
+      // A scope pushed and left open by the callback is dropped as well
+      const index = scopes.indexOf(scope);
+      if (index > 0) {
+        scopes.splice(index);
+      }
+    }
+  }
+
+  /**
+   * Run an async callback with its own copy of the current scope. On the
+   * server (AsyncLocalStorage) the copy stays current across awaits. In
+   * browsers it is current until the first await only: capture through the
+   * scope handed over to keep its data after that.
+   */
+  withScopeAsync<T>(callback: (scope: Scope) => Promise<T>): Promise<T> {
+    const scope = this.getScope().clone();
+    return this.runWithScope(scope, () => callback(scope));
+  }
+
+  // Like setContext, but the value is computed when an error is captured
+  addContextProvider(key: string, provider: () => any): () => void {
+    this.contextProviders.set(key, provider);
+    return () => {
+      if (this.contextProviders.get(key) === provider) {
+        this.contextProviders.delete(key);
+      }
+    };
+  }
+
+  private getProvidedContext(): Record<string, any> {
+    const provided: Record<string, any> = {};
+    this.contextProviders.forEach((provider, key) => {
+      try {
+        const value = provider();
+        if (value !== undefined) {
+          provided[key] = value;
+        }
+      } catch (error) {
+        if (this.config.debug) {
+          console.warn(`[ErrorExplorer] Context provider "${key}" failed:`, error);
+        }
+      }
+    });
+    return provided;
   }
 
   addBreadcrumb(
@@ -267,15 +536,10 @@ export class ErrorReporter {
     level: 'debug' | 'info' | 'warning' | 'error' = 'info',
     data?: Record<string, any>
   ): void {
-    this.breadcrumbManager.addBreadcrumb({
-      message,
-      category,
-      level,
-      data
-    });
+    this.getScope().addBreadcrumb(message, category, level, data);
   }
 
-  async captureException(error: Error, context?: Record<string, any>): Promise<void> {
+  async captureException(error: Error, context?: Record<string, any>, scope: Scope = this.getScope()): Promise<void> {
     if (!this.config.enabled || !this.isInitialized) {
       return;
     }
@@ -287,7 +551,17 @@ export class ErrorReporter {
       this.sdkMonitor.trackError(error, context);
       
       // Format error data
-      const errorData = this.formatError(error, context);
+      const errorData = this.formatError(error, context, scope);
+      
+      // Map minified frames back to original sources
+      if (this.config.enableSourceMaps) {
+        await this.resolveSourceMaps(errorData);
+      }
+      
+      // Attach what the user did just before the error
+      if (this.replayRecorder.isRecording()) {
+        this.attachReplay(errorData);
+      }
       
       // Validate payload
       const payloadValidation = this.securityValidator.validatePayload(errorData);
@@ -317,6 +591,11 @@ export class ErrorReporter {
         finalData = processedData;
       }
 
+      // Group the error, keeping a fingerprint set by beforeSend
+      if (!finalData.fingerprint) {
+        finalData.fingerprint = this.fingerprinter.compute(finalData);
+      }
+
       // Check rate limits
       const rateLimitResult = this.rateLimiter.canSendError(finalData);
       if (!rateLimitResult.allowed) {
@@ -343,7 +622,7 @@ export class ErrorReporter {
       this.quotaManager.recordUsage(payloadSize);
 
       // Send error (with batching, circuit breaker and offline support)
-      await this.sendError(finalData);
+      await this.sendEvent(finalData);
       
       // Track performance
       const performanceEnd = performance.now();
@@ -362,32 +641,38 @@ export class ErrorReporter {
   async captureMessage(
     message: string,
     level: 'debug' | 'info' | 'warning' | 'error' = 'info',
-    context?: Record<string, any>
+    context?: Record<string, any>,
+    scope: Scope = this.getScope()
   ): Promise<void> {
     const error = new Error(message);
     error.name = 'CapturedMessage';
-    return this.captureException(error, { ...context, level, messageLevel: level });
+    return this.captureException(error, { ...context, level, messageLevel: level }, scope);
   }
 
-  private formatError(error: Error, context?: Record<string, any>): ErrorData {
+  private formatError(error: Error, context: Record<string, any> | undefined, scope: Scope): ErrorData {
     const errorInfo = extractErrorInfo(error);
     const browserInfo = getBrowserInfo();
     const performanceInfo = getPerformanceInfo();
+    const user = scope.getUser();
+    const tags = scope.getTags();
 
     const errorData: ErrorData = {
       message: errorInfo.message,
       exception_class: errorInfo.name,
       stack_trace: errorInfo.stack || '',
+      stack_frames: errorInfo.frames,
       file: errorInfo.file || 'unknown',
       line: errorInfo.line || 0,
       project: this.config.projectName,
       environment: this.config.environment,
       timestamp: new Date().toISOString(),
       browser: this.getBrowserData(),
-      breadcrumbs: this.breadcrumbManager.getBreadcrumbs(),
-      user: Object.keys(this.userContext).length > 0 ? this.userContext : undefined,
+      breadcrumbs: scope.getBreadcrumbManager().getBreadcrumbs(),
+      user: Object.keys(user).length > 0 ? user : undefined,
+      tags: Object.keys(tags).length > 0 ? tags : undefined,
       context: {
-        ...this.globalContext,
+        ...scope.getContext(),
+        ...this.getProvidedContext(),
         ...context,
         sessionId: this.sessionId,
         sdkVersion: this.config.version,
@@ -399,6 +684,15 @@ export class ErrorReporter {
       customData: this.config.customData
     };
 
+    if (error instanceof HttpError) {
+      errorData.http_status = error.status;
+    }
+
+    const linkedExceptions = extractLinkedExceptions(error, this.config.maxErrorChainDepth);
+    if (linkedExceptions.length > 0) {
+      errorData.linked_exceptions = linkedExceptions;
+    }
+
     // Add request data
     if (typeof window !== 'undefined') {
       errorData.request = this.getRequestData();
@@ -407,26 +701,167 @@ export class ErrorReporter {
     return errorData;
   }
 
-  private async sendError(errorData: ErrorData): Promise<void> {
+  private async resolveSourceMaps(errorData: ErrorData): Promise<void> {
+    if (!errorData.stack_frames || errorData.stack_frames.length === 0) {
+      return;
+    }
+
+    errorData.stack_frames = await this.sourceMapResolver.resolveFrames(errorData.stack_frames);
+
+    if (errorData.linked_exceptions) {
+      errorData.linked_exceptions = await Promise.all(errorData.linked_exceptions.map(async linked => ({
+        ...linked,
+        stack_frames: await this.sourceMapResolver.resolveFrames(linked.stack_frames)
+      })));
+    }
+
+    const frame = findCulpritFrame(errorData.stack_frames);
+    if (frame) {
+      errorData.file = frame.filename;
+      errorData.line = frame.line || 0;
+    }
+  }
+
+  startTransaction(options: TransactionOptions): Transaction {
+    return this.tracer.startTransaction(options);
+  }
+
+  startSpan<T>(options: SpanOptions, callback: (span: Span) => T): T {
+    return this.tracer.startSpan(options, callback);
+  }
+
+  getActiveTransaction(): Transaction | null {
+    return this.tracer.getActiveTransaction();
+  }
+
+  isTracingEnabled(): boolean {
+    return this.isEnabled() && this.tracer.isEnabled();
+  }
+
+  private async captureTransaction(transaction: Transaction): Promise<void> {
+    if (!this.config.enabled || !this.isInitialized) {
+      return;
+    }
+
+    const performanceData: PerformanceData = {
+      ...transaction.toPayload(),
+      ...this.getEventMetadata()
+    };
+
+    if (!this.canSendEvent(performanceData)) {
+      return;
+    }
+
+    try {
+      await this.sendEvent(performanceData);
+    } catch (error) {
+      if (this.config.debug) {
+        console.error('[ErrorExplorer] Failed to send transaction:', error);
+      }
+    }
+  }
+
+  private async captureWebVitals(report: WebVitalsReport): Promise<void> {
+    if (!this.config.enabled || !this.isInitialized) {
+      return;
+    }
+
+    const webVitalsData: WebVitalsData = {
+      event_type: 'web_vitals',
+      timestamp: new Date().toISOString(),
+      metrics: report.metrics,
+      navigation: report.navigation,
+      tags: {
+        route: report.route,
+        ...(this.config.version ? { release: this.config.version } : {})
+      },
+      ...this.getEventMetadata()
+    };
+
+    if (!this.canSendEvent(webVitalsData)) {
+      return;
+    }
+
+    try {
+      await this.sendEvent(webVitalsData);
+    } catch (error) {
+      if (this.config.debug) {
+        console.error('[ErrorExplorer] Failed to send web vitals:', error);
+      }
+    }
+  }
+
+  // Transactions and web vitals use up the same rate limit and quota as errors
+  private canSendEvent(payload: EventPayload): boolean {
+    const rateLimitResult = this.rateLimiter.canSendEvent();
+    if (!rateLimitResult.allowed) {
+      this.sdkMonitor.trackSuppressedError(rateLimitResult.reason || 'Rate limited');
+      if (this.config.debug) {
+        console.warn('[ErrorExplorer] Event suppressed:', rateLimitResult.reason);
+      }
+      return false;
+    }
+
+    const payloadSize = new Blob([JSON.stringify(payload)]).size;
+    const quotaResult = this.quotaManager.canSendError(payloadSize);
+    if (!quotaResult.allowed) {
+      this.sdkMonitor.trackSuppressedError(quotaResult.reason || 'Quota exceeded');
+      if (this.config.debug) {
+        console.warn('[ErrorExplorer] Event suppressed:', quotaResult.reason);
+      }
+      return false;
+    }
+
+    this.rateLimiter.markEventSent();
+    this.quotaManager.recordUsage(payloadSize);
+    return true;
+  }
+
+  private attachReplay(errorData: ErrorData): void {
+    // The segment only gets the space left under maxPayloadSize, keeping some room for the fingerprint
+    const used = new Blob([JSON.stringify(errorData)]).size;
+    const budget = this.config.maxPayloadSize - used - 1024;
+    if (budget <= 0) return;
+
+    const segment = this.replayRecorder.getSegment(budget);
+    if (segment) {
+      errorData.replay = segment;
+    }
+  }
+
+  private getEventMetadata(): Pick<PerformanceData, 'project' | 'environment' | 'version' | 'commitHash' | 'sessionId' | 'request'> {
+    return {
+      project: this.config.projectName,
+      environment: this.config.environment,
+      version: this.config.version,
+      commitHash: this.config.commitHash,
+      sessionId: this.sessionId,
+      request: typeof window !== 'undefined' ? { url: window.location.href } : undefined
+    };
+  }
+
+  private async sendEvent(payload: EventPayload): Promise<void> {
     // If batching is enabled, add to batch
     if (this.config.enableBatching) {
-      await this.batchManager.addError(errorData);
+      await this.batchManager.addEvent(payload);
       return;
     }
 
     // Otherwise send immediately
     if (!this.circuitBreaker.canExecute()) {
       // Circuit breaker is open, queue for offline processing
-      await this.offlineManager.handleError(errorData);
+      if (this.config.enableOfflineSupport) {
+        await this.offlineManager.handleError(payload);
+      }
       return;
     }
 
     try {
       await this.circuitBreaker.execute(async () => {
         if (this.config.enableOfflineSupport) {
-          await this.offlineManager.handleError(errorData);
+          await this.offlineManager.handleError(payload);
         } else {
-          await this.sendErrorDirectly(errorData);
+          await this.sendEventDirectly(payload);
         }
       });
     } catch (error) {
@@ -439,7 +874,7 @@ export class ErrorReporter {
       // If direct sending fails and offline is disabled, try retry logic
       if (!this.config.enableOfflineSupport) {
         try {
-          await this.retryManager.retry(() => this.sendErrorDirectly(errorData));
+          await this.retryManager.retry(() => this.sendEventDirectly(payload));
         } catch (retryError) {
           if (this.config.debug) {
             console.error('[ErrorExplorer] All retry attempts failed:', retryError);
@@ -449,9 +884,9 @@ export class ErrorReporter {
     }
   }
 
-  private async sendErrorDirectly(errorData: ErrorData): Promise<void> {
+  private async sendEventDirectly(payload: EventPayload): Promise<void> {
     const result = await this.retryManager.executeWithRetry(async () => {
-      return await this.sendWithCompression(errorData);
+      return await this.sendWithCompression(payload);
     });
 
     if (!result.success) {
@@ -469,47 +904,90 @@ export class ErrorReporter {
     }
   }
 
-  private async sendWithCompression(data: ErrorData | BatchedErrorData): Promise<any> {
+  private async sendWithCompression(data: EventPayload | BatchedErrorData): Promise<any> {
     const jsonData = JSON.stringify(data);
     const compressed = await this.compressionService.compress(jsonData);
     const isCompressed = compressed !== jsonData;
     
     const headers: Record<string, string> = {
-      ...this.compressionService.getCompressionHeaders(isCompressed)
+      ...this.compressionService.getCompressionHeaders(isCompressed),
+      // Binary gzip payloads are sent as raw bytes, everything else as JSON (either uncompressed or base64 compressed)
+      'Content-Type': isCompressed && compressed instanceof ArrayBuffer ? 'application/octet-stream' : 'application/json'
     };
 
-    if (isCompressed && compressed instanceof ArrayBuffer) {
-      // Send binary data
-      const response = await fetch(this.config.webhookUrl, {
-        method: 'POST',
-        body: compressed,
-        headers: {
-          ...headers,
-          'Content-Type': 'application/octet-stream'
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+    const response = await this.sendWithTimeout({
+      url: this.config.webhookUrl,
+      body: compressed,
+      headers,
+      // Vitals are reported as the page is hidden, the request has to survive it
+      keepalive: 'event_type' in data && data.event_type === 'web_vitals'
+    });
+    
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    
+    return response.body ?? {};
+  }
+
+  private async sendWithTimeout(request: TransportRequest): Promise<TransportResponse> {
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    // Race the transport against the timer so custom transports that ignore the signal cannot hang either
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller?.abort();
+        this.sdkMonitor.trackTimeout();
+        reject(new TimeoutError(this.config.timeout));
+      }, this.config.timeout);
+    });
+
+    // The SDK's own requests stay out of the HTTP breadcrumbs of every reporter on the page
+    const releaseClaim = claimRequest('POST', request.url);
+
+    try {
+      return await Promise.race([
+        this.transport.send({ ...request, signal: controller?.signal }),
+        timeout
+      ]);
+    } finally {
+      releaseClaim();
+      if (timer) {
+        clearTimeout(timer);
       }
-      
-      return await response.json().catch(() => ({}));
-    } else {
-      // Send as JSON (either uncompressed or base64 compressed)
-      const response = await fetch(this.config.webhookUrl, {
-        method: 'POST',
-        body: compressed,
-        headers: {
-          ...headers,
-          'Content-Type': 'application/json'
-        }
+    }
+  }
+
+  private flushOnUnload(): void {
+    if (!this.isInitialized) return;
+
+    // A custom transport may add what a beacon cannot (auth headers, another endpoint), it sends the batch itself
+    if (typeof this.config.transport === 'object') {
+      void this.batchManager.flush();
+      return;
+    }
+
+    // Offline, the beacon would be lost: the offline queue stays in storage and the batch joins it
+    const isOnline = typeof navigator === 'undefined' || navigator.onLine;
+    const pending = [
+      ...this.batchManager.drain(),
+      ...(isOnline ? this.offlineManager.takeQueue() : [])
+    ];
+
+    if (pending.length === 0) return;
+
+    // Whatever does not fit in the beacon budget is kept for the next session
+    const unsent = isOnline ? this.unloadManager.deliver(pending) : pending;
+    if (this.config.enableOfflineSupport) {
+      this.offlineManager.persistErrors(unsent);
+    }
+
+    if (this.config.debug) {
+      console.log('[ErrorExplorer] Flushed on page unload', {
+        sent: pending.length - unsent.length,
+        persisted: unsent.length
       });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      return await response.json().catch(() => ({}));
     }
   }
 
@@ -590,8 +1068,50 @@ export class ErrorReporter {
     this.config = { ...this.config, ...updates };
     
     // Update dependent services
-    if (updates.maxBreadcrumbs) {
-      this.breadcrumbManager = new BreadcrumbManager(updates.maxBreadcrumbs);
+    if (updates.transport) {
+      this.transport = createTransport(updates.transport);
+    }
+    
+    if (updates.tracesSampleRate !== undefined) {
+      this.tracer.updateConfig({ tracesSampleRate: updates.tracesSampleRate });
+    }
+    
+    if (updates.fingerprintRules || updates.getFingerprint) {
+      this.fingerprinter.updateConfig({
+        rules: this.config.fingerprintRules,
+        callback: this.config.getFingerprint
+      });
+    }
+    
+    if (updates.captureClicks !== undefined || updates.captureFormSubmits !== undefined ||
+        updates.captureInputChanges !== undefined || updates.userInteractionThrottle) {
+      this.interactionTracker.updateConfig({
+        click: this.config.captureClicks,
+        submit: this.config.captureFormSubmits,
+        input: this.config.captureInputChanges,
+        throttle: this.config.userInteractionThrottle
+      });
+    }
+    
+    if (updates.failedRequestStatusCodes || updates.httpIgnoreUrls || updates.webhookUrl) {
+      this.httpInstrumentation.updateConfig({
+        ignoreUrls: [this.config.webhookUrl, ...this.config.httpIgnoreUrls],
+        failedStatusCodes: this.config.failedRequestStatusCodes
+      });
+    }
+    
+    if (updates.enableSourceMaps !== undefined || updates.sourceMaps || updates.sourceMapContextLines || updates.timeout) {
+      this.sourceMapResolver.updateConfig({
+        enabled: this.config.enableSourceMaps,
+        contextLines: this.config.sourceMapContextLines,
+        sourceMaps: this.config.sourceMaps,
+        timeout: this.config.timeout
+      });
+    }
+    
+    const { maxBreadcrumbs } = updates;
+    if (maxBreadcrumbs) {
+      this.scopes.forEach(scope => scope.getBreadcrumbManager().setMaxBreadcrumbs(maxBreadcrumbs));
     }
     
     if (updates.maxRequestsPerMinute || updates.duplicateErrorWindow) {
@@ -609,7 +1129,7 @@ export class ErrorReporter {
   }
 
   clearBreadcrumbs(): void {
-    this.breadcrumbManager.clearBreadcrumbs();
+    this.getBreadcrumbManager().clearBreadcrumbs();
   }
 
   isEnabled(): boolean {
@@ -620,8 +1140,16 @@ export class ErrorReporter {
     return this.sdkMonitor.assessHealth();
   }
 
+  getTracer(): Tracer {
+    return this.tracer;
+  }
+
+  getSecurityValidator(): SecurityValidator {
+    return this.securityValidator;
+  }
+
   getBreadcrumbManager(): BreadcrumbManager {
-    return this.breadcrumbManager;
+    return this.getScope().getBreadcrumbManager();
   }
 
   getConfig() {
@@ -642,7 +1170,14 @@ export class ErrorReporter {
     this.quotaManager.destroy();
     this.sdkMonitor.destroy();
     this.batchManager.destroy();
-    this.breadcrumbManager.clearBreadcrumbs();
+    this.unloadManager.destroy();
+    this.webVitalsCollector.destroy();
+    this.replayRecorder.destroy();
+    this.httpInstrumentation.destroy();
+    this.interactionTracker.destroy();
+    this.removeGlobalHandlers?.();
+    this.removeGlobalHandlers = null;
+    this.scopes.forEach(scope => scope.getBreadcrumbManager().clearBreadcrumbs());
     this.isInitialized = false;
 
     if (this.config.debug) {
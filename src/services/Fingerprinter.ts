@@ -0,0 +1,182 @@
+import { ErrorData, FingerprintRule, StackFrame } from '../types';
+import { parseStackTrace } from '../utils/stackTrace';
+import { getRootCause } from '../utils/errorChain';
+
+export interface FingerprintConfig {
+  rules: FingerprintRule[];
+  callback?: (errorData: ErrorData, defaultFingerprint: string) => string | string[] | null | undefined;
+  stackDepth: number; // Number of frames that take part in the default fingerprint
+}
+
+const DEFAULT_TOKEN = '{{ default }}';
+const VOLATILE_IDS = /\b(?:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{16,})\b/gi;
+
+export class Fingerprinter {
+  private config: FingerprintConfig;
+
+  constructor(config: Partial<FingerprintConfig> = {}) {
+    this.config = {
+      rules: [],
+      stackDepth: 3,
+      ...config
+    };
+  }
+
+  /**
+   * Compute the grouping key of an error: the callback wins, then a fingerprint passed in the
+   * capture context, then the first matching rule, then the default of exception class,
+   * message, top frames, root cause and level.
+   */
+  compute(errorData: ErrorData): string {
+    const defaultKey = this.getDefaultKey(errorData);
+    const defaultFingerprint = hashString(defaultKey);
+
+    if (this.config.callback) {
+      const custom = this.config.callback(errorData, defaultFingerprint);
+      if (custom !== null && custom !== undefined) {
+        return this.fromParts(Array.isArray(custom) ? custom : [custom], errorData, defaultKey);
+      }
+    }
+
+    const requested = errorData.context?.fingerprint;
+    if (Array.isArray(requested) && requested.length > 0) {
+      return this.fromParts(requested.map(String), errorData, defaultKey);
+    }
+
+    const rule = this.config.rules.find(candidate => this.matchesRule(candidate, errorData));
+    if (rule) {
+      return this.fromParts(rule.fingerprint, errorData, defaultKey);
+    }
+
+    return defaultFingerprint;
+  }
+
+  private fromParts(parts: string[], errorData: ErrorData, defaultKey: string): string {
+    // Replacer functions: a "$&" or "$1" in a message is not a replacement pattern
+    const key = parts.map(part => part
+      .replace(DEFAULT_TOKEN, () => defaultKey)
+      .replace('{{ exception_class }}', () => errorData.exception_class)
+      .replace('{{ message }}', () => errorData.message)
+      .replace('{{ component }}', () => getComponentName(errorData) || '')
+      .replace('{{ route }}', () => getRoute(errorData) || '')
+    ).join('|');
+
+    return hashString(key);
+  }
+
+  private matchesRule(rule: FingerprintRule, errorData: ErrorData): boolean {
+    if (rule.exceptionClass !== undefined && !matches(rule.exceptionClass, errorData.exception_class)) {
+      return false;
+    }
+
+    if (rule.message !== undefined) {
+      const matched = typeof rule.message === 'string'
+        ? errorData.message.includes(rule.message)
+        : matches(rule.message, errorData.message);
+      if (!matched) return false;
+    }
+
+    if (rule.componentName !== undefined && !matches(rule.componentName, getComponentName(errorData))) {
+      return false;
+    }
+
+    if (rule.route !== undefined && !matches(rule.route, getRoute(errorData))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private getDefaultKey(errorData: ErrorData): string {
+    const message = (errorData.message || '').replace(VOLATILE_IDS, '<id>').substring(0, 100);
+    const level = errorData.context?.level || 'error';
+
+    const rootCause = getRootCause(errorData);
+    const causeSignature = rootCause
+      ? `${rootCause.exception_class}:${rootCause.message.substring(0, 100)}:${this.getStackSignature(rootCause.stack_frames, rootCause.stack_trace)}`
+      : '';
+
+    return [
+      errorData.exception_class,
+      message,
+      this.getStackSignature(errorData.stack_frames, errorData.stack_trace),
+      causeSignature,
+      level
+    ].join('|');
+  }
+
+  /**
+   * Top frames without line and column numbers, so that unrelated edits
+   * to a file do not split an issue into several groups
+   */
+  private getStackSignature(frames: StackFrame[] | undefined, stackTrace: string): string {
+    const parsed = frames && frames.length > 0 ? frames : parseStackTrace(stackTrace);
+
+    if (parsed.length === 0) {
+      // Unparseable stack, fall back to the raw text with positions removed
+      return (stackTrace || '')
+        .split('\n')
+        .slice(0, this.config.stackDepth + 1)
+        .map(line => line.trim().replace(/:\d+(?::\d+)?/g, ''))
+        .join('|');
+    }
+
+    const inApp = parsed.filter(frame => frame.in_app);
+    return (inApp.length > 0 ? inApp : parsed)
+      .slice(0, this.config.stackDepth)
+      .map(frame => `${frame.function}@${normalizeFilename(frame.filename)}`)
+      .join('|');
+  }
+
+  updateConfig(updates: Partial<FingerprintConfig>): void {
+    this.config = { ...this.config, ...updates };
+  }
+
+  getConfig(): FingerprintConfig {
+    return { ...this.config };
+  }
+}
+
+function matches(pattern: string | RegExp, value: string | undefined): boolean {
+  if (value === undefined) return false;
+  return typeof pattern === 'string' ? pattern === value : pattern.test(value);
+}
+
+function getComponentName(errorData: ErrorData): string | undefined {
+  return errorData.context?.vue?.componentName;
+}
+
+function getRoute(errorData: ErrorData): string | undefined {
+  if (errorData.context?.route?.path) {
+    return errorData.context.route.path;
+  }
+
+  if (errorData.request?.url) {
+    try {
+      return new URL(errorData.request.url).pathname;
+    } catch {
+      return undefined;
+    }
+  }
+
+  return undefined;
+}
+
+// Drop origin, query string and hash so the same file groups across hosts and cache busters
+function normalizeFilename(filename: string): string {
+  return filename.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '').replace(/[?#].*$/, '');
+}
+
+// Two independent 32-bit hashes, enough to keep grouping collisions negligible
+export function hashString(value: string): string {
+  let djb2 = 5381;
+  let fnv = 0x811c9dc5;
+
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    djb2 = ((djb2 << 5) + djb2 + code) | 0;
+    fnv = Math.imul(fnv ^ code, 0x01000193);
+  }
+
+  return (djb2 >>> 0).toString(16).padStart(8, '0') + (fnv >>> 0).toString(16).padStart(8, '0');
+}
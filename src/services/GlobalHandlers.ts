@@ -0,0 +1,104 @@
+export interface GlobalHandlerSubscriber {
+  onError?(event: ErrorEvent): void;
+  onUnhandledRejection?(event: PromiseRejectionEvent): void;
+  onConsole?(level: 'error' | 'warning', args: any[]): void;
+}
+
+type ConsoleMethod = (...args: any[]) => void;
+
+/**
+ * Uncaught errors, unhandled rejections and console output are hooked once for
+ * the page, whatever the number of reporters. Console output becomes a
+ * breadcrumb of every reporter, but an uncaught error is reported only once:
+ * by the first reporter still installed that handles it, the page's default.
+ */
+const subscribers: GlobalHandlerSubscriber[] = [];
+let errorListener: ((event: ErrorEvent) => void) | null = null;
+let rejectionListener: ((event: PromiseRejectionEvent) => void) | null = null;
+let consolePatch: { error: ConsoleMethod; warn: ConsoleMethod; originalError: ConsoleMethod; originalWarn: ConsoleMethod } | null = null;
+
+function listen(): void {
+  errorListener = (event) => {
+    subscribers.find(subscriber => subscriber.onError)?.onError!(event);
+  };
+  rejectionListener = (event) => {
+    subscribers.find(subscriber => subscriber.onUnhandledRejection)?.onUnhandledRejection!(event);
+  };
+  window.addEventListener('error', errorListener);
+  window.addEventListener('unhandledrejection', rejectionListener);
+}
+
+function stopListening(): void {
+  window.removeEventListener('error', errorListener!);
+  window.removeEventListener('unhandledrejection', rejectionListener!);
+  errorListener = null;
+  rejectionListener = null;
+}
+
+function patchConsole(): void {
+  const originalError = console.error;
+  const originalWarn = console.warn;
+
+  // Once unpatched, a wrapper left below another patch only forwards
+  const error = (...args: any[]) => {
+    if (consolePatch?.error === error) {
+      subscribers.forEach(subscriber => subscriber.onConsole?.('error', args));
+    }
+    originalError.apply(console, args);
+  };
+  const warn = (...args: any[]) => {
+    if (consolePatch?.warn === warn) {
+      subscribers.forEach(subscriber => subscriber.onConsole?.('warning', args));
+    }
+    originalWarn.apply(console, args);
+  };
+
+  consolePatch = { error, warn, originalError, originalWarn };
+  console.error = error;
+  console.warn = warn;
+}
+
+// A patch installed on top of ours since stays, ours is left below it
+function unpatchConsole(): void {
+  if (!consolePatch) return;
+
+  if (console.error === consolePatch.error) {
+    console.error = consolePatch.originalError;
+  }
+  if (console.warn === consolePatch.warn) {
+    console.warn = consolePatch.originalWarn;
+  }
+  consolePatch = null;
+}
+
+// The console is only patched while a subscriber records it
+function syncConsolePatch(): void {
+  const recordsConsole = subscribers.some(subscriber => subscriber.onConsole);
+  if (recordsConsole && !consolePatch) {
+    patchConsole();
+  } else if (!recordsConsole && consolePatch) {
+    unpatchConsole();
+  }
+}
+
+// Returns a function that unsubscribes, the hooks are removed with the last subscriber
+export function subscribeGlobalHandlers(subscriber: GlobalHandlerSubscriber): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  subscribers.push(subscriber);
+  if (subscribers.length === 1) {
+    listen();
+  }
+  syncConsolePatch();
+
+  return () => {
+    const index = subscribers.indexOf(subscriber);
+    if (index === -1) return;
+
+    subscribers.splice(index, 1);
+    if (subscribers.length === 0) {
+      stopListening();
+    }
+    syncConsolePatch();
+  };
+}
@@ -0,0 +1,273 @@
+import { HttpRequestInfo } from '../types';
+import { SecurityValidator } from './SecurityValidator';
+
+export interface HttpInstrumentationConfig {
+  ignoreUrls: Array<string | RegExp>; // Strings match as a URL prefix
+  failedStatusCodes: Array<number | [number, number]>;
+}
+
+type UrlMasker = Pick<SecurityValidator, 'sanitizeText' | 'isSensitiveKey'>;
+
+interface XHRRequestState {
+  method: string;
+  url: string;
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' && performance.now ? performance.now() : Date.now();
+}
+
+/**
+ * Redact query string values: sensitive parameter names lose their value
+ * entirely, others go through the sensitive data patterns. The fragment is dropped.
+ */
+export function scrubUrl(url: string, masker: UrlMasker): string {
+  // Without a page to resolve against (SSR), relative URLs stay relative
+  const relative = typeof window === 'undefined' && !/^[a-z][a-z\d+\-.]*:/i.test(url);
+  let parsed: URL;
+  try {
+    parsed = new URL(url, typeof window !== 'undefined' ? window.location.href : 'http://localhost');
+  } catch (error) {
+    return masker.sanitizeText(url.split('#')[0] || '');
+  }
+
+  const params: string[] = [];
+  parsed.searchParams.forEach((value, key) => {
+    const scrubbed = masker.isSensitiveKey(key) ? '[REDACTED]' : masker.sanitizeText(value);
+    params.push(`${encodeURIComponent(key)}=${scrubbed === value ? encodeURIComponent(value) : scrubbed}`);
+  });
+
+  return `${relative ? '' : parsed.origin}${parsed.pathname}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+}
+
+export function matchesStatusCode(status: number, codes: Array<number | [number, number]>): boolean {
+  return codes.some(code => Array.isArray(code) ? status >= code[0] && status <= code[1] : status === code);
+}
+
+// Requests an integration records itself (axios interceptors), keyed by method and absolute URL
+const claimedRequests = new Map<string, object[]>();
+
+function getRequestKey(method: string, url: string): string {
+  try {
+    return `${method.toUpperCase()} ${new URL(url, typeof window !== 'undefined' ? window.location.href : undefined).href}`;
+  } catch (error) {
+    return `${method.toUpperCase()} ${url}`;
+  }
+}
+
+/**
+ * Mark the next fetch or XMLHttpRequest call to this URL as already recorded,
+ * so the shared instrumentation skips it. Returns a function that drops the
+ * claim if the request never went out.
+ */
+export function claimRequest(method: string, url: string): () => void {
+  const key = getRequestKey(method, url);
+  const claim = {};
+  claimedRequests.set(key, [...(claimedRequests.get(key) || []), claim]);
+
+  return () => {
+    const remaining = (claimedRequests.get(key) || []).filter(pending => pending !== claim);
+    if (remaining.length > 0) {
+      claimedRequests.set(key, remaining);
+    } else {
+      claimedRequests.delete(key);
+    }
+  };
+}
+
+function takeClaim(method: string, url: string): boolean {
+  const key = getRequestKey(method, url);
+  const claims = claimedRequests.get(key);
+  if (!claims || claims.length === 0) return false;
+
+  if (claims.length > 1) {
+    claimedRequests.set(key, claims.slice(1));
+  } else {
+    claimedRequests.delete(key);
+  }
+  return true;
+}
+
+/**
+ * fetch and XMLHttpRequest are patched once for the page, whatever the number
+ * of reporters: each reporter's HttpInstrumentation subscribes to the shared
+ * patch, which is removed with the last subscriber.
+ */
+const subscribers = new Set<HttpInstrumentation>();
+const xhrRequests = new WeakMap<XMLHttpRequest, XHRRequestState>();
+let patchedFetch: typeof fetch | null = null;
+let originalFetch: typeof fetch | null = null;
+let patchedOpen: XMLHttpRequest['open'] | null = null;
+let patchedSend: XMLHttpRequest['send'] | null = null;
+let originalOpen: XMLHttpRequest['open'] | null = null;
+let originalSend: XMLHttpRequest['send'] | null = null;
+
+function notify(method: string, url: string, startTime: number, statusCode?: number, error?: string): void {
+  subscribers.forEach(subscriber => subscriber.report(method, url, startTime, statusCode, error));
+}
+
+function patchFetch(): void {
+  const fetchBeforePatch = window.fetch;
+  originalFetch = fetchBeforePatch;
+
+  const wrapper = function (input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = init?.method || (typeof input === 'object' && 'method' in input ? input.method : 'GET');
+
+    if (patchedFetch !== wrapper || subscribers.size === 0 || takeClaim(method, url)) {
+      return fetchBeforePatch.call(window, input, init);
+    }
+
+    const startTime = now();
+    return fetchBeforePatch.call(window, input, init).then(
+      (response) => {
+        notify(method, url, startTime, response.status);
+        return response;
+      },
+      (error) => {
+        notify(method, url, startTime, undefined, error instanceof Error ? error.message : String(error));
+        throw error;
+      }
+    );
+  };
+  patchedFetch = wrapper;
+  window.fetch = wrapper;
+}
+
+function patchXHR(): void {
+  const prototype = XMLHttpRequest.prototype;
+  const openBeforePatch = prototype.open;
+  const sendBeforePatch = prototype.send;
+  originalOpen = openBeforePatch;
+  originalSend = sendBeforePatch;
+
+  const open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: any[]) {
+    xhrRequests.set(this, { method, url: String(url) });
+    return (openBeforePatch as (...args: any[]) => void).call(this, method, url, ...rest);
+  };
+
+  const send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+    const request = xhrRequests.get(this);
+
+    if (patchedSend === send && request && subscribers.size > 0 && !takeClaim(request.method, request.url)) {
+      const startTime = now();
+      let failure: string | undefined;
+
+      this.addEventListener('error', () => { failure = 'Network error'; });
+      this.addEventListener('abort', () => { failure = 'Request aborted'; });
+      this.addEventListener('timeout', () => { failure = 'Request timed out'; });
+      this.addEventListener('loadend', () => {
+        notify(request.method, request.url, startTime, failure ? undefined : this.status, failure);
+      });
+    }
+
+    return sendBeforePatch.call(this, body);
+  };
+
+  patchedOpen = open;
+  patchedSend = send;
+  prototype.open = open;
+  prototype.send = send;
+}
+
+// A patch installed on top of ours since stays, ours is left below it as a pass-through
+function unpatch(): void {
+  if (patchedFetch && window.fetch === patchedFetch) {
+    window.fetch = originalFetch!;
+  }
+
+  const prototype = typeof XMLHttpRequest !== 'undefined' ? XMLHttpRequest.prototype : null;
+  if (prototype && prototype.open === patchedOpen && prototype.send === patchedSend) {
+    prototype.open = originalOpen!;
+    prototype.send = originalSend!;
+  }
+
+  patchedFetch = null;
+  originalFetch = null;
+  patchedOpen = null;
+  patchedSend = null;
+  originalOpen = null;
+  originalSend = null;
+}
+
+export class HttpInstrumentation {
+  private config: HttpInstrumentationConfig;
+  private masker: UrlMasker;
+  private handler: ((request: HttpRequestInfo) => void) | null = null;
+
+  constructor(config: Partial<HttpInstrumentationConfig>, masker: UrlMasker) {
+    this.config = {
+      ignoreUrls: [],
+      failedStatusCodes: [[500, 599]],
+      ...config
+    };
+    this.masker = masker;
+  }
+
+  setHandler(handler: (request: HttpRequestInfo) => void): void {
+    this.handler = handler;
+  }
+
+  instrument(): void {
+    if (typeof window === 'undefined') return;
+
+    subscribers.add(this);
+
+    if (typeof window.fetch === 'function' && !patchedFetch) {
+      patchFetch();
+    }
+
+    if (typeof XMLHttpRequest !== 'undefined' && !patchedOpen) {
+      patchXHR();
+    }
+  }
+
+  isFailedStatus(status: number): boolean {
+    return matchesStatusCode(status, this.config.failedStatusCodes);
+  }
+
+  private shouldIgnore(url: string): boolean {
+    return this.config.ignoreUrls.some(pattern =>
+      typeof pattern === 'string' ? url.startsWith(pattern) : pattern.test(url)
+    );
+  }
+
+  report(method: string, url: string, startTime: number, statusCode?: number, error?: string): void {
+    if (!this.handler || this.shouldIgnore(url)) return;
+
+    const request: HttpRequestInfo = {
+      method: method.toUpperCase(),
+      url: scrubUrl(url, this.masker),
+      status_code: statusCode,
+      duration: Math.round(now() - startTime)
+    };
+
+    if (error) {
+      request.error = error;
+    }
+
+    try {
+      this.handler(request);
+    } catch (handlerError) {
+      // Reporting must never break the application's request
+    }
+  }
+
+  updateConfig(updates: Partial<HttpInstrumentationConfig>): void {
+    this.config = { ...this.config, ...updates };
+  }
+
+  getConfig(): HttpInstrumentationConfig {
+    return { ...this.config };
+  }
+
+  destroy(): void {
+    subscribers.delete(this);
+
+    if (subscribers.size === 0 && typeof window !== 'undefined') {
+      unpatch();
+    }
+
+    this.handler = null;
+  }
+}
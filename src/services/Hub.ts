@@ -0,0 +1,54 @@
+import { App, InjectionKey, getCurrentInstance } from 'vue';
+import { ErrorReporter } from './ErrorReporter';
+
+// The reporter of an app, for inject() in its components
+export const ERROR_REPORTER_KEY: InjectionKey<ErrorReporter> = Symbol('errorExplorerReporter');
+
+/**
+ * Keeps track of the reporters of the page: one per Vue app, plus a default
+ * one for code that runs outside of any component. The first reporter becomes
+ * the default, so an app installed later (a micro-frontend) does not take over
+ * the reports of the host page.
+ */
+export class Hub {
+  private defaultReporter: ErrorReporter | null = null;
+  private appReporters = new WeakMap<App, ErrorReporter>();
+
+  // A reporter that cannot be the default is only used inside its app, e.g. the one of a server request
+  bindApp(app: App, reporter: ErrorReporter, canBeDefault: boolean = true): void {
+    this.appReporters.set(app, reporter);
+    app.provide(ERROR_REPORTER_KEY, reporter);
+
+    if (canBeDefault && !this.defaultReporter) {
+      this.defaultReporter = reporter;
+    }
+  }
+
+  unbindApp(app: App): void {
+    const reporter = this.appReporters.get(app);
+    this.appReporters.delete(app);
+
+    if (reporter && reporter === this.defaultReporter) {
+      this.defaultReporter = null;
+    }
+  }
+
+  setDefault(reporter: ErrorReporter | null): void {
+    this.defaultReporter = reporter;
+  }
+
+  getDefault(): ErrorReporter | null {
+    return this.defaultReporter;
+  }
+
+  getAppReporter(app: App): ErrorReporter | null {
+    return this.appReporters.get(app) || null;
+  }
+
+  // During setup, lifecycle hooks and render, the reporter of the component's app
+  getCurrent(): ErrorReporter | null {
+    const instance = getCurrentInstance();
+    const appReporter = instance ? this.appReporters.get(instance.appContext.app) : undefined;
+    return appReporter || this.defaultReporter;
+  }
+}
@@ -0,0 +1,145 @@
+import { BLOCK_SELECTOR, MASK_SELECTOR, getElementSelector, getVueComponentName } from '../utils/dom';
+import { throttle } from '../utils/performance';
+import { SecurityValidator } from './SecurityValidator';
+
+export type InteractionType = 'click' | 'submit' | 'input';
+
+export interface InteractionConfig {
+  click: boolean;
+  submit: boolean;
+  input: boolean;
+  throttle: number; // Milliseconds between two breadcrumbs of the same event type
+  blockSelector: string; // Interactions inside matching elements are not recorded
+  maskSelector: string; // Text inside matching elements is replaced with asterisks
+}
+
+type InteractionMasker = Pick<SecurityValidator, 'sanitizeText'>;
+
+const MAX_TEXT_LENGTH = 50;
+
+// Clicks on an icon or a span inside a button are reported on the button itself
+const INTERACTIVE_SELECTOR = 'button, a, input, select, textarea, label, summary, [role="button"], [role="link"], [data-testid]';
+
+export class InteractionTracker {
+  private config: InteractionConfig;
+  private masker: InteractionMasker;
+  private handler: ((event: string, target: string, data?: Record<string, any>) => void) | null = null;
+  private listeners: Array<{ type: string; listener: EventListener }> = [];
+  private started = false;
+
+  constructor(config: Partial<InteractionConfig>, masker: InteractionMasker) {
+    this.config = {
+      click: true,
+      submit: true,
+      input: true,
+      throttle: 500,
+      blockSelector: BLOCK_SELECTOR,
+      maskSelector: MASK_SELECTOR,
+      ...config
+    };
+    this.masker = masker;
+  }
+
+  setHandler(handler: (event: string, target: string, data?: Record<string, any>) => void): void {
+    this.handler = handler;
+  }
+
+  start(): void {
+    if (typeof document === 'undefined' || this.started) return;
+    this.started = true;
+
+    if (this.config.click) {
+      this.listen('click', (element) => element.closest(INTERACTIVE_SELECTOR) || element);
+    }
+
+    if (this.config.submit) {
+      this.listen('submit', (element) => element);
+    }
+
+    if (this.config.input) {
+      // change fires once the user commits a value, unlike input which fires per keystroke
+      this.listen('change', (element) => element);
+    }
+  }
+
+  private listen(type: string, resolveTarget: (element: Element) => Element): void {
+    const record = throttle((element: Element) => this.record(type, resolveTarget(element)), this.config.throttle);
+
+    const listener = (event: Event) => {
+      const element = event.target as Element | null;
+      if (element && typeof element.closest === 'function') {
+        record(element);
+      }
+    };
+
+    // Capture phase, so handlers that stop propagation do not hide the interaction
+    document.addEventListener(type, listener, { capture: true, passive: true });
+    this.listeners.push({ type, listener });
+  }
+
+  private record(type: string, element: Element): void {
+    if (!this.handler || element.closest(this.config.blockSelector)) return;
+
+    const selector = getElementSelector(element);
+    const component = getVueComponentName(element);
+    const data: Record<string, any> = {
+      tag: element.tagName.toLowerCase()
+    };
+
+    if (component) {
+      data.component = component;
+    }
+
+    // Only the kind of field is recorded, never its value
+    if (type === 'change') {
+      const field = element as HTMLInputElement;
+      if (field.type) {
+        data.input_type = field.type;
+      }
+      if (field.name) {
+        data.name = field.name;
+      }
+    }
+
+    const text = type === 'click' ? (element.textContent || '').trim().replace(/\s+/g, ' ') : '';
+    if (text && element.tagName !== 'INPUT' && element.tagName !== 'TEXTAREA') {
+      data.text = this.maskText(text, element);
+    }
+
+    this.handler(
+      type === 'change' ? 'input' : type,
+      component ? `${selector} (${component})` : selector,
+      data
+    );
+  }
+
+  // Labels can hold names or emails ("Signed in as ..."), sanitized before the cut so no half email is left
+  private maskText(text: string, element: Element): string {
+    const masked = element.closest(this.config.maskSelector)
+      ? text.replace(/\S/g, '*')
+      : this.masker.sanitizeText(text);
+
+    return masked.length > MAX_TEXT_LENGTH ? `${masked.slice(0, MAX_TEXT_LENGTH)}...` : masked;
+  }
+
+  updateConfig(updates: Partial<InteractionConfig>): void {
+    const wasStarted = this.started;
+    this.destroy();
+    this.config = { ...this.config, ...updates };
+    if (wasStarted) {
+      this.start();
+    }
+  }
+
+  getConfig(): InteractionConfig {
+    return { ...this.config };
+  }
+
+  destroy(): void {
+    for (const { type, listener } of this.listeners) {
+      document.removeEventListener(type, listener, { capture: true });
+    }
+    this.listeners = [];
+    this.started = false;
+  }
+}
@@ -1,25 +1,30 @@
-import { ErrorData } from '../types';
+import { EventPayload } from '../types';
 
 export interface OfflineQueueItem {
   id: string;
-  errorData: ErrorData;
+  errorData: EventPayload;
   timestamp: number;
   attempts: number;
 }
 
+const LEGACY_STORAGE_KEY = 'error-explorer-offline-queue';
+
 export class OfflineManager {
   private maxQueueSize: number;
   private maxAge: number;
   private queue: OfflineQueueItem[] = [];
   private isOnline: boolean = true;
-  private sendFunction: ((errorData: ErrorData) => Promise<void>) | null = null;
+  private sendFunction: ((errorData: EventPayload) => Promise<void>) | null = null;
   private processingQueue: boolean = false;
   private onlineListener: (() => void) | null = null;
   private offlineListener: (() => void) | null = null;
+  private namespace?: string;
 
-  constructor(maxQueueSize: number = 50, maxAge: number = 24 * 60 * 60 * 1000) {
+  // The namespace (the project name) keeps the queues of several reporters apart
+  constructor(maxQueueSize: number = 50, maxAge: number = 24 * 60 * 60 * 1000, namespace?: string) {
     this.maxQueueSize = maxQueueSize;
     this.maxAge = maxAge;
+    this.namespace = namespace;
     this.setupNetworkListeners();
     this.loadQueueFromStorage();
   }
@@ -42,11 +47,11 @@ export class OfflineManager {
     window.addEventListener('offline', this.offlineListener);
   }
 
-  setSendFunction(sendFunction: (errorData: ErrorData) => Promise<void>): void {
+  setSendFunction(sendFunction: (errorData: EventPayload) => Promise<void>): void {
     this.sendFunction = sendFunction;
   }
 
-  async handleError(errorData: ErrorData): Promise<void> {
+  async handleError(errorData: EventPayload): Promise<void> {
     if (this.isOnline && this.sendFunction) {
       try {
         await this.sendFunction(errorData);
@@ -61,7 +66,14 @@ export class OfflineManager {
     }
   }
 
-  private queueError(errorData: ErrorData): void {
+  private queueError(errorData: EventPayload): void {
+    this.enqueue(errorData);
+
+    // Persist to storage
+    this.saveQueueToStorage();
+  }
+
+  private enqueue(errorData: EventPayload): void {
     const queueItem: OfflineQueueItem = {
       id: this.generateId(),
       errorData,
@@ -81,8 +93,21 @@ export class OfflineManager {
       this.queue.sort((a, b) => a.timestamp - b.timestamp);
       this.queue = this.queue.slice(-this.maxQueueSize);
     }
+  }
+
+  // Remove all queued errors from memory, storage is only updated by the next persistErrors call
+  takeQueue(): EventPayload[] {
+    const errors = this.queue.map(item => item.errorData);
+    this.queue = [];
+    return errors;
+  }
+
+  // Queue errors for the next session without trying to send them
+  persistErrors(errors: EventPayload[]): void {
+    for (const errorData of errors) {
+      this.enqueue(errorData);
+    }
 
-    // Persist to storage
     this.saveQueueToStorage();
   }
 
@@ -133,7 +158,7 @@ export class OfflineManager {
   }
 
   private getStorageKey(): string {
-    return 'error-explorer-offline-queue';
+    return this.namespace ? `${LEGACY_STORAGE_KEY}:${this.namespace}` : LEGACY_STORAGE_KEY;
   }
 
   private saveQueueToStorage(): void {
@@ -164,6 +189,31 @@ export class OfflineManager {
       console.warn('Failed to load offline queue from localStorage:', error);
       this.queue = [];
     }
+
+    if (this.namespace) {
+      this.migrateLegacyQueue();
+    }
+  }
+
+  // Events queued before the keys were namespaced go to the first reporter that loads them
+  private migrateLegacyQueue(): void {
+    try {
+      const data = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!data) return;
+
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      const legacyQueue = JSON.parse(data);
+      if (Array.isArray(legacyQueue)) {
+        const ids = new Set(this.queue.map(item => item.id));
+        this.queue = [...this.queue, ...legacyQueue.filter((item: OfflineQueueItem) => !ids.has(item.id))]
+          .sort((a, b) => a.timestamp - b.timestamp)
+          .slice(-this.maxQueueSize);
+        this.cleanupQueue();
+        this.saveQueueToStorage();
+      }
+    } catch (error) {
+      console.warn('Failed to migrate the offline queue in localStorage:', error);
+    }
   }
 
   async flushQueue(): Promise<void> {
@@ -198,8 +248,8 @@ export class OfflineManager {
     if (this.offlineListener) {
       window.removeEventListener('offline', this.offlineListener);
     }
-    
-    this.clearQueue();
+
+    // The stored queue is left for the next page or app of the project
     this.sendFunction = null;
   }
 }
\ No newline at end of file
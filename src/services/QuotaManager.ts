@@ -4,6 +4,7 @@ export interface QuotaConfig {
   payloadSizeLimit: number;
   burstLimit: number;
   burstWindowMs: number;
+  storageNamespace?: string; // Keeps the counters of several reporters apart
 }
 
 export interface QuotaStats {
@@ -23,6 +24,8 @@ export interface QuotaResult {
   quotaStats: QuotaStats;
 }
 
+const LEGACY_STORAGE_KEY = 'error-explorer-quota';
+
 export class QuotaManager {
   private config: QuotaConfig;
   private dailyCount: number = 0;
@@ -30,14 +33,18 @@ export class QuotaManager {
   private burstCounts: number[] = [];
   private lastResetDate: string;
   private lastResetMonth: string;
-  private storageKey: string = 'error-explorer-quota';
+  private storageKey: string;
 
   constructor(config: QuotaConfig) {
     this.config = config;
+    this.storageKey = config.storageNamespace ? `${LEGACY_STORAGE_KEY}:${config.storageNamespace}` : LEGACY_STORAGE_KEY;
     const now = new Date();
     this.lastResetDate = this.getDateKey(now);
     this.lastResetMonth = this.getMonthKey(now);
     this.loadFromStorage();
+    if (config.storageNamespace) {
+      this.migrateLegacyStorage();
+    }
   }
 
   canSendError(payloadSize: number = 0): QuotaResult {
@@ -196,6 +203,30 @@ export class QuotaManager {
     }
   }
 
+  // Counters kept before the keys were namespaced still count for the current day and month
+  private migrateLegacyStorage(): void {
+    if (typeof window === 'undefined' || !window.localStorage) return;
+
+    try {
+      const data = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!data) return;
+
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      const parsed = JSON.parse(data);
+      this.cleanupOldData();
+      if (parsed.lastResetDate === this.lastResetDate) {
+        this.dailyCount += parsed.dailyCount || 0;
+        this.burstCounts = [...(parsed.burstCounts || []), ...this.burstCounts];
+      }
+      if (parsed.lastResetMonth === this.lastResetMonth) {
+        this.monthlyCount += parsed.monthlyCount || 0;
+      }
+      this.saveToStorage();
+    } catch (error) {
+      console.warn('Failed to migrate quota data in localStorage:', error);
+    }
+  }
+
   updateConfig(updates: Partial<QuotaConfig>): void {
     this.config = { ...this.config, ...updates };
   }
@@ -204,7 +235,8 @@ export class QuotaManager {
     return { ...this.config };
   }
 
+  // The stored counters still apply to the next reporter of the project
   destroy(): void {
-    this.resetQuotas();
+    this.burstCounts = [];
   }
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { ErrorData } from '../types';
+import { Fingerprinter } from './Fingerprinter';
 
 export interface RateLimiterConfig {
   maxRequests: number;
@@ -17,7 +18,8 @@ export class RateLimiter {
   private config: RateLimiterConfig;
   private requests: number[] = [];
   private errorHashes: Map<string, number> = new Map();
-  private cleanupInterval: number | null = null;
+  private cleanupInterval: ReturnType<typeof setInterval> | null = null;
+  private fingerprinter: Fingerprinter = new Fingerprinter();
 
   constructor(config: RateLimiterConfig) {
     this.config = config;
@@ -25,26 +27,21 @@ export class RateLimiter {
   }
 
   private setupCleanupInterval(): void {
-    if (typeof window !== 'undefined') {
-      this.cleanupInterval = window.setInterval(() => {
-        this.cleanup();
-      }, this.config.windowMs);
-    }
+    this.cleanupInterval = setInterval(() => {
+      this.cleanup();
+    }, this.config.windowMs);
+
+    // A server reporter lives as long as the process, its interval must not keep the process running
+    (this.cleanupInterval as { unref?: () => void }).unref?.();
   }
 
   canSendError(errorData: ErrorData): RateLimitInfo {
     const now = Date.now();
     
     // Check rate limit
-    this.removeExpiredRequests(now);
-    
-    if (this.requests.length >= this.config.maxRequests) {
-      return {
-        allowed: false,
-        remaining: 0,
-        resetTime: this.getNextResetTime(now),
-        reason: 'Rate limit exceeded'
-      };
+    const rateLimit = this.canSendEvent();
+    if (!rateLimit.allowed) {
+      return rateLimit;
     }
 
     // Check for duplicate errors
@@ -75,44 +72,34 @@ export class RateLimiter {
     this.errorHashes.set(errorHash, now);
   }
 
-  private generateErrorHash(errorData: ErrorData): string {
-    // Enhanced fingerprint combining stack trace signature + message
-    const stackSignature = this.extractStackSignature(errorData.stackTrace || '', 3);
-    const messageSignature = (errorData.message || '').substring(0, 100);
-    const errorType = errorData.level || 'error';
-    
-    // Combine signatures
-    const key = `${stackSignature}|${messageSignature}|${errorType}`;
-    return btoa(key).replace(/[^a-zA-Z0-9]/g, '').substring(0, 32);
+  // Transactions and web vitals only count against the request limit, they are never duplicates
+  canSendEvent(): RateLimitInfo {
+    const now = Date.now();
+    this.removeExpiredRequests(now);
+
+    if (this.requests.length >= this.config.maxRequests) {
+      return {
+        allowed: false,
+        remaining: 0,
+        resetTime: this.getNextResetTime(now),
+        reason: 'Rate limit exceeded'
+      };
+    }
+
+    return {
+      allowed: true,
+      remaining: this.config.maxRequests - this.requests.length - 1,
+      resetTime: this.getNextResetTime(now)
+    };
   }
 
-  /**
-   * Extract stack trace signature by taking the first N meaningful frames
-   * and normalizing line numbers to avoid over-segmentation
-   */
-  private extractStackSignature(stackTrace: string, depth: number = 3): string {
-    if (!stackTrace) return '';
-    
-    const lines = stackTrace.split('\n');
-    
-    // Filter meaningful frames (ignore empty lines and browser internals)
-    const meaningfulFrames = lines.filter(line => {
-      const trimmed = line.trim();
-      return trimmed && 
-             !trimmed.includes('chrome-extension://') &&
-             !trimmed.includes('webpack://') &&
-             (trimmed.includes('.vue') || trimmed.includes('.js') || trimmed.includes('.ts'));
-    });
-    
-    // Take first N frames
-    const frames = meaningfulFrames.slice(0, depth);
-    
-    // Normalize each frame (remove specific line numbers)
-    const normalizedFrames = frames.map(frame => {
-      return frame.replace(/:\d+:\d+/g, ':XX:XX').replace(/:\d+/g, ':XX');
-    });
-    
-    return normalizedFrames.join('|');
+  markEventSent(): void {
+    this.requests.push(Date.now());
+  }
+
+  private generateErrorHash(errorData: ErrorData): string {
+    // Errors captured through ErrorReporter already carry their fingerprint
+    return errorData.fingerprint || this.fingerprinter.compute(errorData);
   }
 
   private removeExpiredRequests(now: number): void {
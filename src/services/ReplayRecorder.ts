@@ -0,0 +1,289 @@
+import { ReplayEvent, ReplaySegment } from '../types';
+import { SecurityValidator } from './SecurityValidator';
+import { BLOCK_SELECTOR, MASK_SELECTOR, getElementSelector } from '../utils/dom';
+import { throttle } from '../utils/performance';
+
+export interface ReplayConfig {
+  enabled: boolean;
+  bufferDuration: number; // Events older than this are dropped from the rolling buffer
+  maxEvents: number;
+  maxSize: number; // Upper bound of the serialized segment, in bytes
+  maskAllInputs: boolean;
+  blockSelector: string; // Nothing inside matching elements is recorded
+  maskSelector: string; // Text inside matching elements is replaced with asterisks
+  maxTextLength: number;
+  scrollThrottle: number;
+}
+
+type ReplayMasker = Pick<SecurityValidator, 'sanitizeText' | 'isSensitiveKey'>;
+
+interface RecordedEvent extends Omit<ReplayEvent, 'offset'> {
+  time: number;
+}
+
+// Mutation records kept from a single observer callback, large re-renders are summarized
+const MAX_MUTATIONS_PER_BATCH = 20;
+
+export class ReplayRecorder {
+  private config: ReplayConfig;
+  private masker: ReplayMasker;
+  private events: RecordedEvent[] = [];
+  private mutationObserver: MutationObserver | null = null;
+  private listeners: Array<{ target: EventTarget; type: string; listener: EventListener }> = [];
+
+  constructor(config: Partial<ReplayConfig>, masker: ReplayMasker) {
+    this.config = {
+      enabled: false,
+      bufferDuration: 30000, // 30 seconds
+      maxEvents: 500,
+      maxSize: 64 * 1024, // 64KB
+      maskAllInputs: true,
+      blockSelector: BLOCK_SELECTOR,
+      maskSelector: MASK_SELECTOR,
+      maxTextLength: 100,
+      scrollThrottle: 100,
+      ...config
+    };
+    this.masker = masker;
+
+    if (this.config.enabled) {
+      this.start();
+    }
+  }
+
+  private start(): void {
+    if (typeof window === 'undefined' || typeof document === 'undefined') return;
+
+    if (typeof MutationObserver !== 'undefined') {
+      this.mutationObserver = new MutationObserver((records) => this.recordMutations(records));
+      this.mutationObserver.observe(document.documentElement, {
+        childList: true,
+        attributes: true,
+        characterData: true,
+        subtree: true
+      });
+    }
+
+    this.listen(document, 'click', (event) => this.recordClick(event as MouseEvent));
+    this.listen(document, 'input', (event) => this.recordInput(event));
+    this.listen(document, 'change', (event) => this.recordInput(event));
+    this.listen(window, 'scroll', throttle(() => this.recordScroll(), this.config.scrollThrottle));
+  }
+
+  private listen(target: EventTarget, type: string, listener: EventListener): void {
+    // Capture phase, so handlers that stop propagation do not hide the event
+    target.addEventListener(type, listener, { capture: true, passive: true });
+    this.listeners.push({ target, type, listener });
+  }
+
+  private push(event: Omit<RecordedEvent, 'time'>): void {
+    const time = Date.now();
+    this.events.push({ ...event, time });
+    this.prune(time);
+  }
+
+  private prune(now: number = Date.now()): void {
+    const cutoff = now - this.config.bufferDuration;
+    let start = 0;
+    while (start < this.events.length && this.events[start]!.time < cutoff) {
+      start++;
+    }
+
+    const overflow = this.events.length - start - this.config.maxEvents;
+    if (overflow > 0) {
+      start += overflow;
+    }
+
+    if (start > 0) {
+      this.events = this.events.slice(start);
+    }
+  }
+
+  private isBlocked(node: Node | null): boolean {
+    const element = node && (node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement);
+    return !!element && !!element.closest(this.config.blockSelector);
+  }
+
+  private maskText(text: string, node: Node | null): string {
+    const element = node && (node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement);
+    const truncated = text.trim().slice(0, this.config.maxTextLength);
+
+    if (element && element.closest(this.config.maskSelector)) {
+      return truncated.replace(/\S/g, '*');
+    }
+
+    return this.masker.sanitizeText(truncated);
+  }
+
+  private recordMutations(records: MutationRecord[]): void {
+    let recorded = 0;
+
+    for (const record of records) {
+      if (this.isBlocked(record.target)) continue;
+
+      if (recorded === MAX_MUTATIONS_PER_BATCH) {
+        this.push({ type: 'mutation', data: { kind: 'summary', skipped: records.length - recorded } });
+        return;
+      }
+
+      const target = record.target.nodeType === Node.ELEMENT_NODE
+        ? getElementSelector(record.target as Element)
+        : record.target.parentElement ? getElementSelector(record.target.parentElement) : undefined;
+
+      if (record.type === 'childList') {
+        this.push({
+          type: 'mutation',
+          target,
+          data: {
+            kind: 'childList',
+            added: Array.from(record.addedNodes)
+              .filter(node => node.nodeType === Node.ELEMENT_NODE)
+              .slice(0, 5)
+              .map(node => (node as Element).tagName.toLowerCase()),
+            removed: record.removedNodes.length
+          }
+        });
+      } else if (record.type === 'attributes' && record.attributeName) {
+        const element = record.target as Element;
+        const name = record.attributeName;
+        const value = element.getAttribute(name);
+        // Attribute values of form fields can mirror what the user typed
+        const hidden = name === 'value' || this.masker.isSensitiveKey(name);
+
+        this.push({
+          type: 'mutation',
+          target,
+          data: {
+            kind: 'attributes',
+            attribute: name,
+            value: value === null ? null : hidden ? '[REDACTED]' : this.maskText(value, element)
+          }
+        });
+      } else if (record.type === 'characterData') {
+        this.push({
+          type: 'mutation',
+          target,
+          data: {
+            kind: 'text',
+            text: this.maskText(record.target.textContent || '', record.target)
+          }
+        });
+      }
+
+      recorded++;
+    }
+  }
+
+  private recordClick(event: MouseEvent): void {
+    const element = event.target as Element | null;
+    if (!element || !element.tagName || this.isBlocked(element)) return;
+
+    this.push({
+      type: 'click',
+      target: getElementSelector(element),
+      data: { x: event.clientX, y: event.clientY }
+    });
+  }
+
+  private recordInput(event: Event): void {
+    const element = event.target as HTMLInputElement | null;
+    if (!element || !element.tagName || this.isBlocked(element)) return;
+
+    const target = getElementSelector(element);
+    const data: Record<string, any> = {};
+
+    if (element.type === 'checkbox' || element.type === 'radio') {
+      data.checked = element.checked;
+    } else {
+      const value = typeof element.value === 'string' ? element.value : '';
+      const sensitive = element.type === 'password' ||
+        this.masker.isSensitiveKey(element.name || '') ||
+        this.masker.isSensitiveKey(element.id || '') ||
+        this.masker.isSensitiveKey(element.autocomplete || '');
+
+      data.length = value.length;
+      if (!this.config.maskAllInputs && !sensitive) {
+        data.value = this.maskText(value, element);
+      }
+    }
+
+    // Keystrokes in the same field collapse into a single event
+    const last = this.events[this.events.length - 1];
+    if (last && last.type === 'input' && last.target === target) {
+      this.events.pop();
+    }
+
+    this.push({ type: 'input', target, data });
+  }
+
+  private recordScroll(): void {
+    this.push({
+      type: 'scroll',
+      data: { x: Math.round(window.scrollX), y: Math.round(window.scrollY) }
+    });
+  }
+
+  isRecording(): boolean {
+    return this.config.enabled && this.listeners.length > 0;
+  }
+
+  /**
+   * Serialize the buffered events, leaving out the oldest ones until the
+   * segment fits in maxSize (or the given smaller budget). Returns null when
+   * nothing was recorded or not even the latest event fits.
+   */
+  getSegment(maxSize: number = this.config.maxSize): ReplaySegment | null {
+    this.prune();
+    if (this.events.length === 0) return null;
+
+    const limit = Math.min(maxSize, this.config.maxSize);
+    let events = this.events;
+    let dropped = 0;
+
+    while (events.length > 0) {
+      const segment = this.createSegment(events, dropped);
+      if (new Blob([JSON.stringify(segment)]).size <= limit) {
+        return segment;
+      }
+
+      // Drop the oldest quarter at a time rather than one event per serialization
+      const drop = Math.max(1, Math.floor(events.length / 4));
+      events = events.slice(drop);
+      dropped += drop;
+    }
+
+    return null;
+  }
+
+  private createSegment(events: RecordedEvent[], dropped: number): ReplaySegment {
+    const startedAt = events[0]!.time;
+    const segment: ReplaySegment = {
+      started_at: new Date(startedAt).toISOString(),
+      duration: Date.now() - startedAt,
+      url: window.location.href,
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      events: events.map(({ time, ...event }) => ({ ...event, offset: time - startedAt }))
+    };
+
+    if (dropped > 0) {
+      segment.dropped_events = dropped;
+    }
+
+    return segment;
+  }
+
+  clear(): void {
+    this.events = [];
+  }
+
+  destroy(): void {
+    this.mutationObserver?.disconnect();
+    this.mutationObserver = null;
+
+    for (const { target, type, listener } of this.listeners) {
+      target.removeEventListener(type, listener, { capture: true });
+    }
+    this.listeners = [];
+    this.events = [];
+  }
+}
@@ -1,3 +1,5 @@
+import { TimeoutError } from '../errors';
+
 export interface RetryConfig {
   maxRetries: number;
   initialDelay: number;
@@ -73,6 +75,11 @@ export class RetryManager {
   }
 
   private shouldNotRetry(error: Error): boolean {
+    // Timeouts are transient, always worth another attempt
+    if (error instanceof TimeoutError || error.name === 'TimeoutError') {
+      return false;
+    }
+
     // Don't retry on certain HTTP status codes (if it's a network error)
     if (error.message.includes('400') || error.message.includes('401') || 
         error.message.includes('403') || error.message.includes('404')) {
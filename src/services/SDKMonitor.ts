@@ -29,6 +29,7 @@ export class SDKMonitor {
       errorsReported: 0,
       errorsSuppressed: 0,
       retryAttempts: 0,
+      timeouts: 0,
       offlineQueueSize: 0,
       averageResponseTime: 0,
       uptime: 0
@@ -36,7 +37,8 @@ export class SDKMonitor {
   }
 
   private setupHealthCheck(): void {
-    if (typeof setInterval !== 'undefined') {
+    // Memory and performance entries only exist in browsers
+    if (typeof window !== 'undefined') {
       this.healthCheckInterval = setInterval(() => {
         this.updateMemoryUsage();
         this.cleanupOldPerformanceEntries();
@@ -61,6 +63,10 @@ export class SDKMonitor {
     this.metrics.retryAttempts++;
   }
 
+  trackTimeout(): void {
+    this.metrics.timeouts++;
+  }
+
   trackPerformance(operation: string, duration: number, success: boolean = true): void {
     const entry: PerformanceEntry = {
       operation,
@@ -138,6 +144,12 @@ export class SDKMonitor {
       score -= 15;
     }
 
+    if (metrics.timeouts > 5) {
+      issues.push('Frequent request timeouts');
+      recommendations.push('Check webhook availability or increase the timeout option');
+      score -= 15;
+    }
+
     if (metrics.offlineQueueSize > 10) {
       issues.push('Large offline queue');
       recommendations.push('Check network connectivity');
@@ -0,0 +1,98 @@
+import { BreadcrumbManager } from './BreadcrumbManager';
+import { UserContext } from '../types';
+
+// What a scope needs from its reporter, to capture with its own data
+export interface ScopeClient {
+  captureException(error: Error, context?: Record<string, any>, scope?: Scope): Promise<void>;
+  captureMessage(
+    message: string,
+    level?: 'debug' | 'info' | 'warning' | 'error',
+    context?: Record<string, any>,
+    scope?: Scope
+  ): Promise<void>;
+}
+
+/**
+ * The user, context, tags and breadcrumbs attached to captured errors. A
+ * scope created for an operation starts as a copy of the enclosing one, so
+ * what the operation sets never leaks into other operations.
+ */
+export class Scope {
+  private user: UserContext = {};
+  private context: Record<string, any> = {};
+  private tags: Record<string, string> = {};
+  private breadcrumbManager: BreadcrumbManager;
+  private client: ScopeClient | null;
+
+  constructor(breadcrumbManager: BreadcrumbManager = new BreadcrumbManager(), client: ScopeClient | null = null) {
+    this.breadcrumbManager = breadcrumbManager;
+    this.client = client;
+  }
+
+  setUser(user: UserContext): void {
+    this.user = { ...this.user, ...user };
+  }
+
+  getUser(): UserContext {
+    return { ...this.user };
+  }
+
+  setContext(key: string, value: any): void {
+    this.context[key] = value;
+  }
+
+  removeContext(key: string): void {
+    delete this.context[key];
+  }
+
+  getContext(): Record<string, any> {
+    return { ...this.context };
+  }
+
+  setTag(key: string, value: string): void {
+    this.tags[key] = value;
+  }
+
+  removeTag(key: string): void {
+    delete this.tags[key];
+  }
+
+  getTags(): Record<string, string> {
+    return { ...this.tags };
+  }
+
+  addBreadcrumb(
+    message: string,
+    category: string = 'custom',
+    level: 'debug' | 'info' | 'warning' | 'error' = 'info',
+    data?: Record<string, any>
+  ): void {
+    this.breadcrumbManager.addBreadcrumb({ message, category, level, data });
+  }
+
+  getBreadcrumbManager(): BreadcrumbManager {
+    return this.breadcrumbManager;
+  }
+
+  // Captures through the scope carry its data wherever they happen, e.g. after an await
+  captureException(error: Error, context?: Record<string, any>): Promise<void> {
+    return this.client ? this.client.captureException(error, context, this) : Promise.resolve();
+  }
+
+  captureMessage(
+    message: string,
+    level: 'debug' | 'info' | 'warning' | 'error' = 'info',
+    context?: Record<string, any>
+  ): Promise<void> {
+    return this.client ? this.client.captureMessage(message, level, context, this) : Promise.resolve();
+  }
+
+  // Context values are copied one level deep, objects set as values stay shared
+  clone(): Scope {
+    const scope = new Scope(this.breadcrumbManager.clone(), this.client);
+    scope.user = { ...this.user };
+    scope.context = { ...this.context };
+    scope.tags = { ...this.tags };
+    return scope;
+  }
+}
@@ -14,6 +14,9 @@ export interface ValidationResult {
   warnings: string[];
 }
 
+// Keys whose values are always redacted, whatever they contain
+const SENSITIVE_KEYS = ['password', 'token', 'secret', 'key', 'auth', 'credential'];
+
 export class SecurityValidator {
   private config: SecurityConfig;
   private defaultSensitivePatterns: RegExp[] = [
@@ -147,6 +150,23 @@ export class SecurityValidator {
       sanitized.stack_trace = this.sanitizeText(sanitized.stack_trace);
     }
 
+    // Sanitize frame locations, URLs can carry tokens in their query string
+    if (sanitized.stack_frames) {
+      sanitized.stack_frames = sanitized.stack_frames.map(frame => ({
+        ...frame,
+        filename: this.sanitizeText(frame.filename)
+      }));
+    }
+
+    // Sanitize chained errors
+    if (sanitized.linked_exceptions) {
+      sanitized.linked_exceptions = sanitized.linked_exceptions.map(linked => ({
+        ...linked,
+        message: this.sanitizeText(linked.message),
+        stack_trace: this.sanitizeText(linked.stack_trace)
+      }));
+    }
+
     // Sanitize context data
     if (sanitized.context) {
       sanitized.context = this.sanitizeObject(sanitized.context);
@@ -206,7 +226,12 @@ export class SecurityValidator {
     return [...new Set(sensitiveDataTypes)];
   }
 
-  private sanitizeText(text: string): string {
+  isSensitiveKey(key: string): boolean {
+    const normalized = key.toLowerCase();
+    return SENSITIVE_KEYS.some(sensitiveKey => normalized.includes(sensitiveKey));
+  }
+
+  sanitizeText(text: string): string {
     let sanitized = text;
     
     for (const pattern of this.config.sensitiveDataPatterns) {
@@ -216,7 +241,7 @@ export class SecurityValidator {
     return sanitized;
   }
 
-  private sanitizeObject(obj: any): any {
+  sanitizeObject(obj: any): any {
     if (typeof obj !== 'object' || obj === null) {
       return obj;
     }
@@ -228,8 +253,7 @@ export class SecurityValidator {
     const sanitized: any = {};
     for (const [key, value] of Object.entries(obj)) {
       // Check if key might contain sensitive data
-      const sensitiveKeys = ['password', 'token', 'secret', 'key', 'auth', 'credential'];
-      if (sensitiveKeys.some(sensitiveKey => key.toLowerCase().includes(sensitiveKey))) {
+      if (this.isSensitiveKey(key)) {
         sanitized[key] = '[REDACTED]';
       } else if (typeof value === 'string') {
         sanitized[key] = this.sanitizeText(value);
@@ -0,0 +1,301 @@
+import { RawSourceMap, StackFrame } from '../types';
+import { isInAppFilename } from '../utils/stackTrace';
+import { TimeoutError } from '../errors';
+import { claimRequest } from './HttpInstrumentation';
+
+export interface SourceMapConfig {
+  enabled: boolean;
+  contextLines: number; // Lines of original source to attach before and after the frame
+  sourceMaps: Record<string, RawSourceMap | string>; // Maps given up front, keyed by script URL
+  timeout: number; // Per request, the error is sent with unresolved frames once it elapses
+}
+
+interface MappingSegment {
+  generatedColumn: number;
+  source: number;
+  line: number;
+  column: number;
+  name?: number;
+}
+
+interface ParsedSourceMap {
+  sources: string[];
+  names: string[];
+  sourcesContent: (string | null)[];
+  lines: MappingSegment[][];
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const SOURCE_MAPPING_URL = /\/\/[#@]\s*sourceMappingURL=(\S+)\s*$/m;
+
+export class SourceMapResolver {
+  private config: SourceMapConfig;
+  private cache: Map<string, Promise<ParsedSourceMap | null>> = new Map();
+
+  constructor(config: Partial<SourceMapConfig> = {}) {
+    this.config = {
+      enabled: false,
+      contextLines: 5,
+      sourceMaps: {},
+      timeout: 5000,
+      ...config
+    };
+  }
+
+  async resolveFrames(frames: StackFrame[]): Promise<StackFrame[]> {
+    if (!this.config.enabled) {
+      return frames;
+    }
+
+    return Promise.all(frames.map(frame => this.resolveFrame(frame)));
+  }
+
+  private async resolveFrame(frame: StackFrame): Promise<StackFrame> {
+    if (frame.line === undefined || !/^https?:\/\//.test(frame.filename)) {
+      return frame;
+    }
+
+    const sourceMap = await this.getSourceMap(frame.filename);
+    if (!sourceMap) {
+      return frame;
+    }
+
+    const segment = this.findSegment(sourceMap, frame.line, frame.column || 1);
+    if (!segment) {
+      return frame;
+    }
+
+    const filename = sourceMap.sources[segment.source] || frame.filename;
+    const resolved: StackFrame = {
+      ...frame,
+      function: segment.name !== undefined ? sourceMap.names[segment.name] || frame.function : frame.function,
+      filename,
+      line: segment.line + 1,
+      column: segment.column + 1,
+      in_app: isInAppFilename(filename)
+    };
+
+    const content = sourceMap.sourcesContent[segment.source];
+    if (content) {
+      Object.assign(resolved, this.getContext(content, segment.line));
+    }
+
+    return resolved;
+  }
+
+  private getContext(content: string, lineIndex: number): Pick<StackFrame, 'pre_context' | 'context_line' | 'post_context'> {
+    const lines = content.split('\n');
+    const contextLines = this.config.contextLines;
+
+    return {
+      pre_context: lines.slice(Math.max(0, lineIndex - contextLines), lineIndex),
+      context_line: lines[lineIndex],
+      post_context: lines.slice(lineIndex + 1, lineIndex + 1 + contextLines)
+    };
+  }
+
+  private findSegment(sourceMap: ParsedSourceMap, line: number, column: number): MappingSegment | null {
+    const segments = sourceMap.lines[line - 1];
+    if (!segments || segments.length === 0) {
+      return null;
+    }
+
+    // Last segment starting at or before the column
+    const target = column - 1;
+    let low = 0;
+    let high = segments.length - 1;
+    let found: MappingSegment | null = null;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const segment = segments[mid]!;
+      if (segment.generatedColumn <= target) {
+        found = segment;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return found;
+  }
+
+  private getSourceMap(scriptUrl: string): Promise<ParsedSourceMap | null> {
+    let cached = this.cache.get(scriptUrl);
+    if (!cached) {
+      cached = this.loadSourceMap(scriptUrl).catch(() => null);
+      this.cache.set(scriptUrl, cached);
+    }
+    return cached;
+  }
+
+  private async loadSourceMap(scriptUrl: string): Promise<ParsedSourceMap | null> {
+    const provided = this.config.sourceMaps[scriptUrl];
+    if (provided && typeof provided === 'object') {
+      return this.parseSourceMap(provided, scriptUrl);
+    }
+
+    const mapUrl = typeof provided === 'string' ? new URL(provided, scriptUrl).href : await this.findSourceMapUrl(scriptUrl);
+    if (!mapUrl) {
+      return null;
+    }
+
+    const raw = mapUrl.startsWith('data:') ? this.decodeDataUrl(mapUrl) : await this.fetchJson(mapUrl);
+    return raw ? this.parseSourceMap(raw, mapUrl) : null;
+  }
+
+  private async findSourceMapUrl(scriptUrl: string): Promise<string | null> {
+    return this.fetchWithTimeout(scriptUrl, async (response) => {
+      if (!response.ok) {
+        return null;
+      }
+
+      const header = response.headers.get('SourceMap') || response.headers.get('X-SourceMap');
+      if (header) {
+        return new URL(header, scriptUrl).href;
+      }
+
+      const match = (await response.text()).match(SOURCE_MAPPING_URL);
+      return match && match[1] ? new URL(match[1], scriptUrl).href : null;
+    });
+  }
+
+  private fetchJson(url: string): Promise<RawSourceMap | null> {
+    return this.fetchWithTimeout(url, response => response.ok ? response.json() : Promise.resolve(null));
+  }
+
+  // The timer also covers reading the body, and a fetch that ignores the signal
+  private async fetchWithTimeout<T>(url: string, read: (response: Response) => Promise<T>): Promise<T> {
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller?.abort();
+        reject(new TimeoutError(this.config.timeout));
+      }, this.config.timeout);
+    });
+
+    // The resolver's own requests stay out of the HTTP breadcrumbs and failed requests
+    const releaseClaim = claimRequest('GET', url);
+
+    try {
+      return await Promise.race([
+        fetch(url, controller ? { signal: controller.signal } : undefined).then(read),
+        timeout
+      ]);
+    } finally {
+      releaseClaim();
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  private decodeDataUrl(dataUrl: string): RawSourceMap | null {
+    const base64 = dataUrl.split(',')[1];
+    return base64 ? JSON.parse(atob(base64)) : null;
+  }
+
+  private parseSourceMap(raw: RawSourceMap, mapUrl: string): ParsedSourceMap | null {
+    // Indexed maps (with sections) are not supported
+    if (!raw.mappings || !Array.isArray(raw.sources)) {
+      return null;
+    }
+
+    const sourceRoot = raw.sourceRoot ? raw.sourceRoot.replace(/\/?$/, '/') : '';
+
+    return {
+      sources: raw.sources.map(source => this.resolveSourcePath(sourceRoot + source, mapUrl)),
+      names: raw.names || [],
+      sourcesContent: raw.sourcesContent || [],
+      lines: this.decodeMappings(raw.mappings)
+    };
+  }
+
+  private resolveSourcePath(source: string, mapUrl: string): string {
+    // Bundlers emit paths like "webpack:///src/App.vue" or "../src/App.vue", keep the readable part
+    const withoutScheme = source.replace(/^[a-z-]+:\/\/\/?/i, '');
+    if (withoutScheme !== source) {
+      return withoutScheme.replace(/^\.\//, '');
+    }
+
+    try {
+      return new URL(source, mapUrl).pathname.replace(/^\//, '');
+    } catch {
+      return source;
+    }
+  }
+
+  private decodeMappings(mappings: string): MappingSegment[][] {
+    let source = 0;
+    let line = 0;
+    let column = 0;
+    let name = 0;
+
+    return mappings.split(';').map(lineMappings => {
+      let generatedColumn = 0;
+      const segments: MappingSegment[] = [];
+
+      for (const encoded of lineMappings.split(',')) {
+        if (!encoded) continue;
+
+        const values = this.decodeVLQ(encoded);
+        generatedColumn += values[0] || 0;
+
+        if (values.length < 4) continue;
+
+        source += values[1]!;
+        line += values[2]!;
+        column += values[3]!;
+
+        const segment: MappingSegment = { generatedColumn, source, line, column };
+        if (values.length >= 5) {
+          name += values[4]!;
+          segment.name = name;
+        }
+        segments.push(segment);
+      }
+
+      return segments;
+    });
+  }
+
+  private decodeVLQ(encoded: string): number[] {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+
+    for (const char of encoded) {
+      const digit = BASE64_CHARS.indexOf(char);
+      if (digit === -1) {
+        throw new Error(`Invalid source map mapping: ${encoded}`);
+      }
+
+      value += (digit & 31) << shift;
+
+      if (digit & 32) {
+        shift += 5;
+      } else {
+        values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+        value = 0;
+        shift = 0;
+      }
+    }
+
+    return values;
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  updateConfig(updates: Partial<SourceMapConfig>): void {
+    this.config = { ...this.config, ...updates };
+    this.clearCache();
+  }
+
+  getConfig(): SourceMapConfig {
+    return { ...this.config };
+  }
+}
@@ -0,0 +1,258 @@
+import { PerformanceData, SpanData, SpanStatus } from '../types';
+
+export interface TracingConfig {
+  tracesSampleRate: number; // 0 disables tracing, 1 records every transaction
+  maxSpans: number; // Spans recorded per transaction, extra children are not kept
+}
+
+export interface SpanOptions {
+  op: string;
+  description?: string;
+  data?: Record<string, any>;
+  startTimestamp?: number; // For spans recorded after the fact
+}
+
+export interface TransactionOptions {
+  name: string;
+  op?: string;
+  tags?: Record<string, string>;
+  data?: Record<string, any>;
+  startTimestamp?: number;
+}
+
+export type TransactionPayload = Pick<PerformanceData,
+  'event_type' | 'transaction_id' | 'trace_id' | 'name' | 'op' | 'status' |
+  'start_timestamp' | 'timestamp' | 'duration' | 'tags' | 'data' | 'spans'>;
+
+function generateId(length: number): string {
+  let id = '';
+  for (let i = 0; i < length; i++) {
+    id += Math.floor(Math.random() * 16).toString(16);
+  }
+  return id;
+}
+
+function now(): number {
+  if (typeof performance !== 'undefined' && performance.now && performance.timeOrigin) {
+    return performance.timeOrigin + performance.now();
+  }
+  return Date.now();
+}
+
+export class Span {
+  readonly spanId: string = generateId(16);
+  readonly traceId: string;
+  readonly parentSpanId?: string;
+  readonly op: string;
+  readonly startTimestamp: number;
+  description?: string;
+  status: SpanStatus = 'ok';
+  endTimestamp?: number;
+  protected data: Record<string, any>;
+
+  constructor(options: SpanOptions, traceId: string = generateId(32), parentSpanId?: string) {
+    this.op = options.op;
+    this.startTimestamp = options.startTimestamp ?? now();
+    this.description = options.description;
+    this.data = { ...options.data };
+    this.traceId = traceId;
+    this.parentSpanId = parentSpanId;
+  }
+
+  setStatus(status: SpanStatus): this {
+    this.status = status;
+    return this;
+  }
+
+  setData(key: string, value: any): this {
+    this.data[key] = value;
+    return this;
+  }
+
+  isFinished(): boolean {
+    return this.endTimestamp !== undefined;
+  }
+
+  getDuration(): number {
+    return (this.endTimestamp ?? now()) - this.startTimestamp;
+  }
+
+  finish(endTimestamp: number = now()): void {
+    if (this.isFinished()) return;
+    this.endTimestamp = endTimestamp;
+  }
+
+  toSpanData(): SpanData {
+    return {
+      span_id: this.spanId,
+      parent_span_id: this.parentSpanId,
+      op: this.op,
+      description: this.description,
+      status: this.status,
+      start_timestamp: new Date(this.startTimestamp).toISOString(),
+      timestamp: new Date(this.endTimestamp ?? now()).toISOString(),
+      duration: this.getDuration(),
+      data: Object.keys(this.data).length > 0 ? { ...this.data } : undefined
+    };
+  }
+}
+
+export class Transaction extends Span {
+  name: string;
+  readonly sampled: boolean;
+  private tags: Record<string, string>;
+  private spans: Span[] = [];
+  private maxSpans: number;
+  private onFinish: (transaction: Transaction) => void;
+
+  constructor(
+    options: TransactionOptions,
+    sampled: boolean,
+    maxSpans: number,
+    onFinish: (transaction: Transaction) => void
+  ) {
+    super({ op: options.op || 'custom', description: options.name, data: options.data, startTimestamp: options.startTimestamp });
+    this.name = options.name;
+    this.sampled = sampled;
+    this.tags = { ...options.tags };
+    this.maxSpans = maxSpans;
+    this.onFinish = onFinish;
+  }
+
+  startChild(options: SpanOptions, parent: Span = this): Span {
+    const span = new Span(options, this.traceId, parent.spanId);
+    if (this.sampled && this.spans.length < this.maxSpans) {
+      this.spans.push(span);
+    }
+    return span;
+  }
+
+  setName(name: string): this {
+    this.name = name;
+    return this;
+  }
+
+  setTag(key: string, value: string): this {
+    this.tags[key] = value;
+    return this;
+  }
+
+  finish(endTimestamp: number = now()): void {
+    if (this.isFinished()) return;
+    super.finish(endTimestamp);
+
+    // Children still running when the transaction ends are cut at its end
+    for (const span of this.spans) {
+      if (!span.isFinished()) {
+        span.setStatus('cancelled');
+        span.finish(endTimestamp);
+      }
+    }
+
+    this.onFinish(this);
+  }
+
+  toPayload(): TransactionPayload {
+    return {
+      event_type: 'transaction',
+      transaction_id: this.spanId,
+      trace_id: this.traceId,
+      name: this.name,
+      op: this.op,
+      status: this.status,
+      start_timestamp: new Date(this.startTimestamp).toISOString(),
+      timestamp: new Date(this.endTimestamp ?? now()).toISOString(),
+      duration: this.getDuration(),
+      tags: Object.keys(this.tags).length > 0 ? { ...this.tags } : undefined,
+      data: Object.keys(this.data).length > 0 ? { ...this.data } : undefined,
+      spans: this.spans.map(span => span.toSpanData())
+    };
+  }
+}
+
+export class Tracer {
+  private config: TracingConfig;
+  private activeTransaction: Transaction | null = null;
+  private sendFunction: ((transaction: Transaction) => void) | null = null;
+
+  constructor(config: Partial<TracingConfig> = {}) {
+    this.config = {
+      tracesSampleRate: 0,
+      maxSpans: 1000,
+      ...config
+    };
+  }
+
+  setSendFunction(sendFn: (transaction: Transaction) => void): void {
+    this.sendFunction = sendFn;
+  }
+
+  isEnabled(): boolean {
+    return this.config.tracesSampleRate > 0;
+  }
+
+  startTransaction(options: TransactionOptions): Transaction {
+    const sampled = this.isEnabled() && Math.random() < this.config.tracesSampleRate;
+
+    const transaction = new Transaction(options, sampled, this.config.maxSpans, (finished) => {
+      if (this.activeTransaction === finished) {
+        this.activeTransaction = null;
+      }
+      if (finished.sampled && this.sendFunction) {
+        this.sendFunction(finished);
+      }
+    });
+
+    this.activeTransaction = transaction;
+    return transaction;
+  }
+
+  getActiveTransaction(): Transaction | null {
+    return this.activeTransaction;
+  }
+
+  /**
+   * Run a callback inside a span of the active transaction, or inside a
+   * transaction of its own when none is active. Promises are awaited.
+   */
+  startSpan<T>(options: SpanOptions, callback: (span: Span) => T): T {
+    const parent = this.activeTransaction;
+    const span = parent
+      ? parent.startChild(options)
+      : this.startTransaction({ name: options.description || options.op, op: options.op, data: options.data });
+
+    let result: T;
+    try {
+      result = callback(span);
+    } catch (error) {
+      span.setStatus('error');
+      span.finish();
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      return result.then(
+        (value) => {
+          span.finish();
+          return value;
+        },
+        (error) => {
+          span.setStatus('error');
+          span.finish();
+          throw error;
+        }
+      ) as unknown as T;
+    }
+
+    span.finish();
+    return result;
+  }
+
+  updateConfig(updates: Partial<TracingConfig>): void {
+    this.config = { ...this.config, ...updates };
+  }
+
+  getConfig(): TracingConfig {
+    return { ...this.config };
+  }
+}
@@ -0,0 +1,133 @@
+import { EventPayload } from '../types';
+import { createBatch } from './BatchManager';
+import { BeaconTransport } from '../transports';
+
+// Room in the size estimate for the "events" key and the digits of the count
+const ENVELOPE_MARGIN = 32;
+
+export interface UnloadConfig {
+  enabled: boolean;
+  url: string | (() => string); // A function is read at send time, to follow config updates
+  maxPayloadSize: number; // Browsers cap in-flight beacon/keepalive bodies at 64KB
+}
+
+export class UnloadManager {
+  private config: UnloadConfig;
+  private flushFunction: (() => void) | null = null;
+  private pageHideListener: (() => void) | null = null;
+  private visibilityListener: (() => void) | null = null;
+
+  constructor(config: Partial<UnloadConfig> & Pick<UnloadConfig, 'url'>) {
+    this.config = {
+      enabled: true,
+      maxPayloadSize: 64 * 1024, // 64KB
+      ...config
+    };
+    this.setupPageListeners();
+  }
+
+  private setupPageListeners(): void {
+    if (!this.config.enabled || typeof window === 'undefined') return;
+
+    this.pageHideListener = () => {
+      this.flushFunction?.();
+    };
+
+    this.visibilityListener = () => {
+      if (document.visibilityState === 'hidden') {
+        this.flushFunction?.();
+      }
+    };
+
+    window.addEventListener('pagehide', this.pageHideListener);
+    document.addEventListener('visibilitychange', this.visibilityListener);
+  }
+
+  setFlushFunction(flushFunction: () => void): void {
+    this.flushFunction = flushFunction;
+  }
+
+  /**
+   * Send as many errors as fit in the beacon budget in a single request.
+   * Returns the errors that could not be delivered so they can be persisted.
+   */
+  deliver(errors: EventPayload[]): EventPayload[] {
+    if (errors.length === 0) {
+      return [];
+    }
+
+    // Each error is measured once, the batch body is only serialized for the request
+    let size = this.measure(this.serialize([])) + ENVELOPE_MARGIN;
+    const included: EventPayload[] = [];
+    const unsent: EventPayload[] = [];
+
+    for (const errorData of errors) {
+      const errorSize = this.measure(JSON.stringify(errorData)) + 1; // The separating comma
+      if (size + errorSize <= this.config.maxPayloadSize) {
+        included.push(errorData);
+        size += errorSize;
+      } else {
+        unsent.push(errorData);
+      }
+    }
+
+    if (included.length > 0 && !this.send(this.serialize(included))) {
+      return [...included, ...unsent];
+    }
+
+    return unsent;
+  }
+
+  private serialize(errors: EventPayload[]): string {
+    return JSON.stringify(createBatch(errors, `unload_${Date.now()}`));
+  }
+
+  private measure(json: string): number {
+    return new Blob([json]).size;
+  }
+
+  private getUrl(): string {
+    return typeof this.config.url === 'function' ? this.config.url() : this.config.url;
+  }
+
+  private send(body: string): boolean {
+    const url = this.getUrl();
+
+    if (BeaconTransport.isSupported()) {
+      try {
+        if (navigator.sendBeacon(url, new Blob([body], { type: 'application/json' }))) {
+          return true;
+        }
+      } catch (error) {
+        // Some browsers refuse non-simple content types for beacons, fall back to keepalive
+      }
+    }
+
+    if (typeof fetch !== 'undefined') {
+      fetch(url, {
+        method: 'POST',
+        body,
+        headers: { 'Content-Type': 'application/json' },
+        keepalive: true
+      }).catch(() => {
+        // The page is going away, nothing left to do with the failure
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  destroy(): void {
+    if (this.pageHideListener) {
+      window.removeEventListener('pagehide', this.pageHideListener);
+      this.pageHideListener = null;
+    }
+    if (this.visibilityListener) {
+      document.removeEventListener('visibilitychange', this.visibilityListener);
+      this.visibilityListener = null;
+    }
+
+    this.flushFunction = null;
+  }
+}
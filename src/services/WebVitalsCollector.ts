@@ -0,0 +1,238 @@
+import { NavigationTimingInfo, WebVitalMetric, WebVitalName, WebVitalRating } from '../types';
+import { getNavigationTiming } from '../utils/performance';
+
+export interface WebVitalsConfig {
+  enabled: boolean;
+  inpDurationThreshold: number; // Event timing entries shorter than this are not reported by the browser
+}
+
+export interface WebVitalsReport {
+  metrics: Partial<Record<WebVitalName, WebVitalMetric>>;
+  route: string;
+  navigation?: NavigationTimingInfo;
+}
+
+// [good, poor] boundaries from https://web.dev/articles/vitals
+const THRESHOLDS: Record<WebVitalName, [number, number]> = {
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+  FCP: [1800, 3000],
+  TTFB: [800, 1800]
+};
+
+export function getRating(name: WebVitalName, value: number): WebVitalRating {
+  const [good, poor] = THRESHOLDS[name];
+  if (value <= good) return 'good';
+  if (value <= poor) return 'needs-improvement';
+  return 'poor';
+}
+
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+interface EventTimingEntry extends PerformanceEntry {
+  interactionId?: number;
+}
+
+export class WebVitalsCollector {
+  private config: WebVitalsConfig;
+  private sendFunction: ((report: WebVitalsReport) => void) | null = null;
+  private observers: PerformanceObserver[] = [];
+  private values: Partial<Record<WebVitalName, number>> = {};
+  private route = '/';
+  private reported = false;
+  private lcpFinalized = false;
+
+  // CLS is the largest burst of shifts less than 1s apart within a 5s window
+  private clsSessionValue = 0;
+  private clsSessionEntries: LayoutShiftEntry[] = [];
+
+  // Longest duration of each interaction, keyed by interactionId
+  private interactions: Map<number, number> = new Map();
+
+  private visibilityListener: (() => void) | null = null;
+  private pageHideListener: (() => void) | null = null;
+  private inputListener: (() => void) | null = null;
+
+  constructor(config: Partial<WebVitalsConfig> = {}) {
+    this.config = {
+      enabled: false,
+      inpDurationThreshold: 40,
+      ...config
+    };
+
+    if (this.config.enabled) {
+      this.start();
+    }
+  }
+
+  setSendFunction(sendFn: (report: WebVitalsReport) => void): void {
+    this.sendFunction = sendFn;
+  }
+
+  private start(): void {
+    if (typeof window === 'undefined' || typeof PerformanceObserver === 'undefined') return;
+
+    this.route = window.location.pathname;
+
+    this.observe('paint', (entries) => {
+      for (const entry of entries) {
+        if (entry.name === 'first-contentful-paint') {
+          this.values.FCP = entry.startTime;
+        }
+      }
+    });
+
+    this.observe('largest-contentful-paint', (entries) => {
+      const last = entries[entries.length - 1];
+      if (last && !this.lcpFinalized) {
+        this.values.LCP = last.startTime;
+      }
+    });
+
+    this.observe('layout-shift', (entries) => {
+      for (const entry of entries as LayoutShiftEntry[]) {
+        if (!entry.hadRecentInput) {
+          this.addLayoutShift(entry);
+        }
+      }
+    });
+
+    this.observe('event', (entries) => this.addInteractions(entries as EventTimingEntry[]), {
+      durationThreshold: this.config.inpDurationThreshold
+    });
+    this.observe('first-input', (entries) => this.addInteractions(entries as EventTimingEntry[]));
+
+    const navigation = getNavigationTiming();
+    if (navigation) {
+      this.values.TTFB = Math.max(navigation.responseStart, 0);
+    }
+
+    // The browser stops emitting LCP candidates once the user interacts
+    this.inputListener = () => {
+      this.lcpFinalized = true;
+    };
+
+    this.visibilityListener = () => {
+      if (document.visibilityState === 'hidden') {
+        this.report();
+      }
+    };
+
+    this.pageHideListener = () => {
+      this.report();
+    };
+
+    window.addEventListener('keydown', this.inputListener, { capture: true, once: true });
+    window.addEventListener('pointerdown', this.inputListener, { capture: true, once: true });
+    document.addEventListener('visibilitychange', this.visibilityListener);
+    window.addEventListener('pagehide', this.pageHideListener);
+  }
+
+  private observe(
+    type: string,
+    callback: (entries: PerformanceEntry[]) => void,
+    options: Record<string, any> = {}
+  ): void {
+    const supported = PerformanceObserver.supportedEntryTypes;
+    if (supported && !supported.includes(type)) return;
+
+    try {
+      const observer = new PerformanceObserver((list) => callback(list.getEntries()));
+      observer.observe({ type, buffered: true, ...options } as PerformanceObserverInit);
+      this.observers.push(observer);
+    } catch (error) {
+      // Entry type not supported by this browser
+    }
+  }
+
+  private addLayoutShift(entry: LayoutShiftEntry): void {
+    const first = this.clsSessionEntries[0];
+    const last = this.clsSessionEntries[this.clsSessionEntries.length - 1];
+
+    if (first && last &&
+        entry.startTime - last.startTime < 1000 &&
+        entry.startTime - first.startTime < 5000) {
+      this.clsSessionValue += entry.value;
+      this.clsSessionEntries.push(entry);
+    } else {
+      this.clsSessionValue = entry.value;
+      this.clsSessionEntries = [entry];
+    }
+
+    this.values.CLS = Math.max(this.values.CLS ?? 0, this.clsSessionValue);
+  }
+
+  private addInteractions(entries: EventTimingEntry[]): void {
+    for (const entry of entries) {
+      if (!entry.interactionId) continue;
+      const current = this.interactions.get(entry.interactionId) ?? 0;
+      this.interactions.set(entry.interactionId, Math.max(current, entry.duration));
+    }
+
+    // INP is the worst interaction, ignoring one outlier per 50 interactions
+    const durations = Array.from(this.interactions.values()).sort((a, b) => b - a);
+    const index = Math.min(Math.floor(durations.length / 50), durations.length - 1);
+    const inp = durations[index];
+    if (inp !== undefined) {
+      this.values.INP = inp;
+    }
+  }
+
+  getMetrics(): Partial<Record<WebVitalName, WebVitalMetric>> {
+    const metrics: Partial<Record<WebVitalName, WebVitalMetric>> = {};
+
+    for (const name of Object.keys(this.values) as WebVitalName[]) {
+      const value = this.values[name];
+      if (value === undefined) continue;
+      const rounded = name === 'CLS' ? Math.round(value * 10000) / 10000 : Math.round(value);
+      metrics[name] = { name, value: rounded, rating: getRating(name, rounded) };
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Send the metrics of the current page view. Called when the page is hidden,
+   * at which point CLS and INP have their final values.
+   */
+  report(): void {
+    if (this.reported || !this.sendFunction) return;
+
+    const metrics = this.getMetrics();
+    if (Object.keys(metrics).length === 0) return;
+
+    this.reported = true;
+    this.sendFunction({
+      metrics,
+      route: this.route,
+      navigation: getNavigationTiming()
+    });
+  }
+
+  destroy(): void {
+    for (const observer of this.observers) {
+      observer.disconnect();
+    }
+    this.observers = [];
+
+    if (this.inputListener) {
+      window.removeEventListener('keydown', this.inputListener, { capture: true });
+      window.removeEventListener('pointerdown', this.inputListener, { capture: true });
+      this.inputListener = null;
+    }
+    if (this.visibilityListener) {
+      document.removeEventListener('visibilitychange', this.visibilityListener);
+      this.visibilityListener = null;
+    }
+    if (this.pageHideListener) {
+      window.removeEventListener('pagehide', this.pageHideListener);
+      this.pageHideListener = null;
+    }
+
+    this.sendFunction = null;
+  }
+}
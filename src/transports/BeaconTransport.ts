@@ -0,0 +1,29 @@
+import { Transport, TransportRequest, TransportResponse } from '../types';
+
+export class BeaconTransport implements Transport {
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function';
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    if (!BeaconTransport.isSupported()) {
+      throw new Error('sendBeacon is not supported in this environment');
+    }
+
+    // Beacons cannot carry custom headers, only the content type of the blob
+    const blob = new Blob([request.body], {
+      type: request.headers['Content-Type'] || 'application/json'
+    });
+
+    const queued = navigator.sendBeacon(request.url, blob);
+    if (!queued) {
+      throw new Error('Beacon was rejected by the browser');
+    }
+
+    // The browser gives no response back, a queued beacon is reported as accepted
+    return {
+      status: 202,
+      headers: {}
+    };
+  }
+}
@@ -0,0 +1,24 @@
+import { Transport, TransportRequest, TransportResponse } from '../types';
+
+export class FetchTransport implements Transport {
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      body: request.body,
+      headers: request.headers,
+      signal: request.signal,
+      keepalive: request.keepalive
+    });
+
+    const headers: Record<string, string> = {};
+    response.headers?.forEach((value, key) => {
+      headers[key.toLowerCase()] = value;
+    });
+
+    return {
+      status: response.status,
+      headers,
+      body: await response.json().catch(() => ({}))
+    };
+  }
+}
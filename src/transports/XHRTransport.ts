@@ -0,0 +1,62 @@
+import { Transport, TransportRequest, TransportResponse } from '../types';
+
+export class XHRTransport implements Transport {
+  send(request: TransportRequest): Promise<TransportResponse> {
+    let onAbort: (() => void) | null = null;
+
+    return new Promise<TransportResponse>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', request.url, true);
+
+      for (const [name, value] of Object.entries(request.headers)) {
+        xhr.setRequestHeader(name, value);
+      }
+
+      xhr.onload = () => {
+        resolve({
+          status: xhr.status,
+          headers: this.parseHeaders(xhr.getAllResponseHeaders()),
+          body: this.parseBody(xhr.responseText)
+        });
+      };
+
+      xhr.onerror = () => {
+        reject(new Error('Network error'));
+      };
+
+      onAbort = () => {
+        xhr.abort();
+        reject(new Error('Request aborted'));
+      };
+      request.signal?.addEventListener('abort', onAbort);
+
+      xhr.send(request.body);
+    }).finally(() => {
+      // The signal may outlive the request, e.g. when shared by the retries of one event
+      if (onAbort) {
+        request.signal?.removeEventListener('abort', onAbort);
+      }
+    });
+  }
+
+  private parseHeaders(rawHeaders: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    for (const line of rawHeaders.trim().split(/[\r\n]+/)) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+      }
+    }
+
+    return headers;
+  }
+
+  private parseBody(text: string): any {
+    try {
+      return text ? JSON.parse(text) : {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { Transport, TransportType } from '../types';
+import { FetchTransport } from './FetchTransport';
+import { BeaconTransport } from './BeaconTransport';
+import { XHRTransport } from './XHRTransport';
+
+export { FetchTransport } from './FetchTransport';
+export { BeaconTransport } from './BeaconTransport';
+export { XHRTransport } from './XHRTransport';
+
+export function createTransport(transport: TransportType | Transport = 'fetch'): Transport {
+  if (typeof transport === 'object') {
+    return transport;
+  }
+
+  switch (transport) {
+    case 'beacon':
+      return new BeaconTransport();
+    case 'xhr':
+      return new XHRTransport();
+    case 'fetch':
+    default:
+      return new FetchTransport();
+  }
+}
@@ -1,3 +1,6 @@
+import type { Span, SpanOptions, Transaction, TransactionOptions } from '../services/Tracer';
+import type { Scope } from '../services/Scope';
+
 export interface ErrorExplorerConfig {
   webhookUrl: string;
   projectName: string;
@@ -9,6 +12,8 @@ export interface ErrorExplorerConfig {
   timeout?: number;
   retries?: number;
   beforeSend?: (data: ErrorData) => ErrorData | null;
+  getFingerprint?: (data: ErrorData, defaultFingerprint: string) => string | string[] | null | undefined;
+  fingerprintRules?: FingerprintRule[];
   captureUnhandledRejections?: boolean;
   captureConsoleErrors?: boolean;
   
@@ -52,29 +57,374 @@ export interface ErrorExplorerConfig {
   batchSize?: number;
   batchTimeout?: number;
   maxBatchPayloadSize?: number;
+  
+  // Transport options
+  transport?: TransportType | Transport;
+  
+  // Page unload delivery
+  enableUnloadFlush?: boolean;
+  
+  // Source map resolution
+  enableSourceMaps?: boolean;
+  sourceMaps?: Record<string, RawSourceMap | string>;
+  sourceMapContextLines?: number;
+  
+  // Error cause chains and AggregateError
+  maxErrorChainDepth?: number;
+  
+  // Performance monitoring
+  tracesSampleRate?: number;
+  traceVueComponents?: boolean;
+  enableWebVitals?: boolean;
+  
+  // Session replay
+  enableReplay?: boolean;
+  replayBufferDuration?: number;
+  replayMaxEvents?: number;
+  replayMaxSize?: number;
+  replayMaskAllInputs?: boolean;
+  
+  // HTTP instrumentation
+  captureHttpRequests?: boolean;
+  captureFailedRequests?: boolean;
+  failedRequestStatusCodes?: Array<number | [number, number]>;
+  httpIgnoreUrls?: Array<string | RegExp>;
+  
+  // Automatic user interaction breadcrumbs
+  captureClicks?: boolean;
+  captureFormSubmits?: boolean;
+  captureInputChanges?: boolean;
+  userInteractionThrottle?: number;
+  
+  // Vue warnings
+  captureVueWarnings?: boolean;
+  reportVueWarnings?: boolean;
+  
+  // SSR hydration
+  captureHydrationMismatches?: boolean;
+  
+  // Vue error context
+  componentTraceDepth?: number;
+  propsMaxDepth?: number;
+  propsMaxBreadth?: number;
+  propsMaxStringLength?: number;
+  propsMaxSize?: number;
+  propsAllowlist?: Array<string | RegExp>;
+  propsDenylist?: Array<string | RegExp>;
+  
+  // Component lifecycle tracking
+  trackComponents?: Array<string | RegExp>;
+  slowUpdateThreshold?: number;
+  reportSlowComponents?: boolean;
+}
+
+export interface ErrorExplorerPluginOptions extends ErrorExplorerConfig {
+  router?: RouterLike;
 }
 
 export interface ErrorData {
   message: string;
   exception_class: string;
   stack_trace: string;
+  stack_frames?: StackFrame[];
+  linked_exceptions?: LinkedException[];
   file: string;
   line: number;
   project: string;
   environment: string;
   timestamp: string;
+  fingerprint?: string;
   http_status?: number;
+  replay?: ReplaySegment;
   request?: RequestData;
   browser?: BrowserData;
   context?: Record<string, any>;
   breadcrumbs?: Breadcrumb[];
   user?: UserContext;
+  tags?: Record<string, string>;
   commitHash?: string;
   version?: string;
   sessionId?: string;
   customData?: Record<string, any>;
 }
 
+export interface HttpRequestInfo {
+  method: string;
+  url: string; // Query string values are scrubbed
+  status_code?: number; // Missing when the request failed without a response
+  duration: number;
+  error?: string;
+}
+
+export type ReplayEventType = 'mutation' | 'click' | 'input' | 'scroll';
+
+export interface ReplayEvent {
+  type: ReplayEventType;
+  offset: number; // Milliseconds since the segment start
+  target?: string;
+  data?: Record<string, any>;
+}
+
+export interface ReplaySegment {
+  started_at: string;
+  duration: number;
+  url: string;
+  viewport: { width: number; height: number };
+  events: ReplayEvent[];
+  dropped_events?: number; // Oldest events left out to stay within the size limit
+}
+
+export interface FingerprintRule {
+  exceptionClass?: string | RegExp;
+  message?: string | RegExp; // Strings match as a substring
+  componentName?: string | RegExp;
+  route?: string | RegExp;
+  // Parts of the grouping key, may use {{ default }}, {{ exception_class }}, {{ message }}, {{ component }} and {{ route }}
+  fingerprint: string[];
+}
+
+export interface StackFrame {
+  function: string;
+  filename: string;
+  line?: number;
+  column?: number;
+  in_app: boolean;
+  pre_context?: string[];
+  context_line?: string;
+  post_context?: string[];
+}
+
+export interface LinkedException {
+  exception_id: number;
+  parent_id: number; // 0 is the captured error itself
+  relation: 'cause' | 'aggregate';
+  exception_class: string;
+  message: string;
+  stack_trace: string;
+  stack_frames: StackFrame[];
+}
+
+export interface RawSourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: string[];
+  sourcesContent?: (string | null)[];
+  names?: string[];
+  mappings: string;
+}
+
+export type TransportType = 'fetch' | 'beacon' | 'xhr';
+
+export interface TransportRequest {
+  url: string;
+  body: string | ArrayBuffer;
+  headers: Record<string, string>;
+  signal?: AbortSignal;
+  keepalive?: boolean; // The request must outlive the page, it is sent as the page is hidden
+}
+
+export interface TransportResponse {
+  status: number;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+export interface Transport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+export type SpanStatus = 'ok' | 'error' | 'cancelled';
+
+export interface SpanData {
+  span_id: string;
+  parent_span_id?: string;
+  op: string;
+  description?: string;
+  status: SpanStatus;
+  start_timestamp: string;
+  timestamp: string;
+  duration: number;
+  data?: Record<string, any>;
+}
+
+export interface PerformanceData {
+  event_type: 'transaction';
+  transaction_id: string;
+  trace_id: string;
+  name: string;
+  op: string;
+  status: SpanStatus;
+  start_timestamp: string;
+  timestamp: string;
+  duration: number;
+  tags?: Record<string, string>;
+  data?: Record<string, any>;
+  spans: SpanData[];
+  project: string;
+  environment: string;
+  version?: string;
+  commitHash?: string;
+  sessionId?: string;
+  request?: RequestData;
+}
+
+export type WebVitalName = 'LCP' | 'CLS' | 'INP' | 'FCP' | 'TTFB';
+
+export type WebVitalRating = 'good' | 'needs-improvement' | 'poor';
+
+export interface WebVitalMetric {
+  name: WebVitalName;
+  value: number; // Milliseconds, except CLS which is a unitless score
+  rating: WebVitalRating;
+}
+
+// Summary of the Navigation Timing Level 2 entry, times are relative to the navigation start
+export interface NavigationTimingInfo {
+  type: string;
+  redirectCount: number;
+  responseStart: number;
+  domInteractive: number;
+  domContentLoadedEventEnd: number;
+  loadEventEnd: number;
+  duration: number;
+  transferSize?: number;
+}
+
+export interface WebVitalsData {
+  event_type: 'web_vitals';
+  timestamp: string;
+  metrics: Partial<Record<WebVitalName, WebVitalMetric>>;
+  navigation?: NavigationTimingInfo;
+  tags: Record<string, string>;
+  project: string;
+  environment: string;
+  version?: string;
+  commitHash?: string;
+  sessionId?: string;
+  request?: RequestData;
+}
+
+// Anything delivered through the batching and offline pipeline, payloads without event_type are errors
+export type EventPayload = ErrorData | PerformanceData | WebVitalsData;
+
+export interface RouteLocationLike {
+  path: string;
+  fullPath: string;
+  name?: string | symbol | null;
+  params?: Record<string, any>;
+  query?: Record<string, any>;
+  matched?: { path: string }[];
+  redirectedFrom?: RouteLocationLike;
+}
+
+// The subset of vue-router's Router the SDK relies on
+export interface RouterLike {
+  beforeEach(guard: (to: RouteLocationLike, from: RouteLocationLike) => any): () => void;
+  afterEach(hook: (to: RouteLocationLike, from: RouteLocationLike, failure?: any) => any): () => void;
+  onError?(handler: (error: any, to?: RouteLocationLike, from?: RouteLocationLike) => any): () => void;
+  currentRoute?: { value: RouteLocationLike };
+}
+
+// The subset of axios the SDK relies on, axios itself is an optional peer dependency
+export interface AxiosRequestConfigLike {
+  method?: string;
+  url?: string;
+  baseURL?: string;
+  headers?: any;
+}
+
+export interface AxiosResponseLike {
+  status: number;
+  statusText?: string;
+  headers?: any;
+  data?: any;
+  config: AxiosRequestConfigLike;
+}
+
+export interface AxiosErrorLike extends Error {
+  code?: string;
+  config?: AxiosRequestConfigLike;
+  response?: AxiosResponseLike;
+}
+
+interface AxiosInterceptorManagerLike<T> {
+  use(onFulfilled?: (value: T) => T | Promise<T>, onRejected?: (error: any) => any): number;
+  eject(id: number): void;
+}
+
+export interface AxiosInstanceLike {
+  interceptors: {
+    request: AxiosInterceptorManagerLike<any>;
+    response: AxiosInterceptorManagerLike<any>;
+  };
+  getUri?(config?: AxiosRequestConfigLike): string;
+}
+
+export interface AxiosInstrumentationOptions {
+  captureErrors?: boolean;
+  failedStatusCodes?: Array<number | [number, number]>;
+  propagateTrace?: boolean;
+  tracePropagationTargets?: Array<string | RegExp>; // Same-origin requests only when not set
+}
+
+// The subset of Pinia the SDK relies on, pinia itself is not a dependency
+export interface PiniaActionContextLike {
+  name: string;
+  store: PiniaStoreLike;
+  args: any[];
+  after(callback: (result: any) => void): void;
+  onError(callback: (error: unknown) => void): void;
+}
+
+export interface PiniaStoreLike {
+  $id: string;
+  $state: Record<string, any>;
+  $onAction(callback: (context: PiniaActionContextLike) => void, detached?: boolean): () => void;
+  $dispose?(): void;
+}
+
+export interface PiniaLike {
+  use(plugin: (context: { store: PiniaStoreLike }) => void): unknown;
+}
+
+export interface PiniaIntegrationOptions {
+  captureErrors?: boolean;
+  actionBreadcrumbs?: boolean;
+  stateStores?: boolean | Array<string | RegExp>; // Store ids whose state is attached to errors, none by default
+  stateMaxSize?: number; // Serialized size in characters, per store
+}
+
+// The subset of a Vuex 4 store the SDK relies on, vuex itself is not a dependency
+export interface VuexMutationLike {
+  type: string;
+  payload?: any;
+}
+
+export interface VuexActionLike {
+  type: string;
+  payload?: any;
+}
+
+export interface VuexStoreLike {
+  state: Record<string, any>;
+  subscribe(handler: (mutation: VuexMutationLike, state: any) => void): () => void;
+  subscribeAction(handler: {
+    before?: (action: VuexActionLike, state: any) => void;
+    after?: (action: VuexActionLike, state: any) => void;
+    error?: (action: VuexActionLike, state: any, error: unknown) => void;
+  }): () => void;
+}
+
+export interface VuexIntegrationOptions {
+  captureErrors?: boolean;
+  mutationBreadcrumbs?: boolean;
+  actionBreadcrumbs?: boolean;
+  payloadMaxSize?: number; // Serialized size in characters
+  attachState?: boolean | Array<string | RegExp>; // Top-level state keys (modules) attached to errors
+  stateMaxSize?: number;
+}
+
 export interface RequestData {
   url?: string;
   referrer?: string;
@@ -120,6 +470,16 @@ export interface VueErrorInfo {
   propsData?: Record<string, any>;
   lifecycle?: string;
   errorBoundary?: string;
+  componentTrace?: string;
+  componentHierarchy?: ComponentTraceEntry[];
+}
+
+export interface ComponentTraceEntry {
+  name: string;
+  file?: string;
+  key?: string | number;
+  props?: Record<string, string | number | boolean>;
+  omitted?: number; // Set on the placeholder standing for the ancestors cut by the depth limit
 }
 
 export type ErrorLevel = 'debug' | 'info' | 'warning' | 'error';
@@ -159,6 +519,7 @@ export interface PerformanceMetrics {
   errorsReported: number;
   errorsSuppressed: number;
   retryAttempts: number;
+  timeouts: number;
   offlineQueueSize: number;
   averageResponseTime: number;
   lastErrorTime?: number;
@@ -181,4 +542,9 @@ export interface UseErrorExplorerResult {
   setContext: (key: string, value: any) => void;
   removeContext: (key: string) => void;
   getSDKHealth: () => SDKHealth;
+  startTransaction: (options: TransactionOptions) => Transaction | null;
+  startSpan: <T>(options: SpanOptions, callback: (span: Span | null) => T) => T;
+  setTag: (key: string, value: string) => void;
+  withScope: <T>(callback: (scope: Scope) => T) => T;
+  withScopeAsync: <T>(callback: (scope: Scope) => Promise<T>) => Promise<T>;
 }
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { ComponentInternalInstance } from 'vue';
+import { getComponentName } from './vue';
+
+// Markers shared by session replay and interaction breadcrumbs
+export const BLOCK_SELECTOR = '[data-error-explorer-block]';
+export const MASK_SELECTOR = '[data-error-explorer-mask]';
+
+// Short CSS-selector-like description of an element, e.g. button#save.btn.primary[data-testid="save"]
+export function describeElement(element: Element): string {
+  let selector = element.tagName.toLowerCase();
+
+  if (element.id) {
+    selector += `#${element.id}`;
+  }
+
+  const classes = typeof element.className === 'string'
+    ? element.className.trim().split(/\s+/).filter(Boolean).slice(0, 3)
+    : [];
+  for (const className of classes) {
+    selector += `.${className}`;
+  }
+
+  // Form fields are easier to recognize by name than by their classes
+  const name = element.getAttribute('name');
+  if (name && /^(input|select|textarea)$/i.test(element.tagName)) {
+    selector += `[name="${name}"]`;
+  }
+
+  const testId = element.getAttribute('data-testid');
+  if (testId) {
+    selector += `[data-testid="${testId}"]`;
+  }
+
+  return selector;
+}
+
+// Path of the element and its closest ancestors, stopping at the first one with an id
+export function getElementSelector(element: Element, maxDepth: number = 3): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && parts.length < maxDepth && current !== document.documentElement) {
+    parts.unshift(describeElement(current));
+    if (current.id) break;
+    current = current.parentElement;
+  }
+
+  return parts.join(' > ');
+}
+
+// Vue only links elements to their component in development builds (or with production devtools enabled)
+export function getVueComponentName(element: Element): string | undefined {
+  let current: Element | null = element;
+
+  while (current) {
+    const instance = (current as Element & { __vueParentComponent?: ComponentInternalInstance }).__vueParentComponent;
+    if (instance) {
+      const name = getComponentName(instance);
+      return name === 'Unknown' ? undefined : name;
+    }
+    current = current.parentElement;
+  }
+
+  return undefined;
+}
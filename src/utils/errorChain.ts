@@ -0,0 +1,115 @@
+import { ErrorData, LinkedException } from '../types';
+import { extractErrorInfo } from './performance';
+
+// Hard cap so an AggregateError with thousands of entries cannot blow the payload
+const MAX_LINKED_EXCEPTIONS = 50;
+
+/**
+ * Walk `cause` chains and `AggregateError.errors` below the given error.
+ * The captured error itself has id 0, linked exceptions are numbered from 1 in discovery order.
+ */
+export function extractLinkedExceptions(error: Error, maxDepth: number = 5): LinkedException[] {
+  const linked: LinkedException[] = [];
+  const seen = new Set<unknown>([error]);
+
+  const visit = (value: unknown, parentId: number, depth: number): void => {
+    if (depth > maxDepth) return;
+
+    for (const [child, relation] of getChildren(value)) {
+      if (linked.length >= MAX_LINKED_EXCEPTIONS) return;
+      if (child === undefined || child === null || seen.has(child)) continue;
+
+      if (typeof child === 'object') {
+        seen.add(child);
+      }
+
+      const exceptionId = linked.length + 1;
+      linked.push(toLinkedException(child, exceptionId, parentId, relation));
+      visit(child, exceptionId, depth + 1);
+    }
+  };
+
+  visit(error, 0, 1);
+  return linked;
+}
+
+// The deepest error reached by following `cause` links from the captured error
+export function getRootCause(errorData: ErrorData): LinkedException | undefined {
+  const linked = errorData.linked_exceptions || [];
+  let rootCause: LinkedException | undefined;
+  let currentId = 0;
+
+  for (;;) {
+    const next = linked.find(item => item.parent_id === currentId && item.relation === 'cause');
+    if (!next) return rootCause;
+    rootCause = next;
+    currentId = next.exception_id;
+  }
+}
+
+function getChildren(value: unknown): [unknown, LinkedException['relation']][] {
+  if (typeof value !== 'object' || value === null) {
+    return [];
+  }
+
+  const children: [unknown, LinkedException['relation']][] = [];
+
+  if (isAggregateError(value)) {
+    for (const inner of (value as any).errors) {
+      children.push([inner, 'aggregate']);
+    }
+  }
+
+  if ('cause' in value) {
+    children.push([(value as any).cause, 'cause']);
+  }
+
+  return children;
+}
+
+function isAggregateError(value: object): boolean {
+  const AggregateErrorClass = (globalThis as any).AggregateError;
+  const isAggregate = (AggregateErrorClass && value instanceof AggregateErrorClass) ||
+    (value instanceof Error && value.name === 'AggregateError');
+
+  return isAggregate && Array.isArray((value as any).errors);
+}
+
+function toLinkedException(
+  value: unknown,
+  exceptionId: number,
+  parentId: number,
+  relation: LinkedException['relation']
+): LinkedException {
+  if (value instanceof Error) {
+    const info = extractErrorInfo(value);
+    return {
+      exception_id: exceptionId,
+      parent_id: parentId,
+      relation,
+      exception_class: info.name,
+      message: info.message,
+      stack_trace: info.stack || '',
+      stack_frames: info.frames
+    };
+  }
+
+  // Anything can be thrown or used as a cause
+  return {
+    exception_id: exceptionId,
+    parent_id: parentId,
+    relation,
+    exception_class: typeof value === 'object' ? 'Object' : typeof value,
+    message: typeof value === 'object' ? safeJson(value) : String(value),
+    stack_trace: '',
+    stack_frames: []
+  };
+}
+
+function safeJson(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
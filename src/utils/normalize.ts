@@ -0,0 +1,137 @@
+import { isRef, toRaw } from 'vue';
+import { describeElement } from './dom';
+
+export interface NormalizeOptions {
+  maxDepth: number;
+  maxBreadth: number; // Keys per object and items per array
+  maxStringLength: number;
+}
+
+const DEFAULT_OPTIONS: NormalizeOptions = {
+  maxDepth: 3,
+  maxBreadth: 20,
+  maxStringLength: 200
+};
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+}
+
+function describeObject(value: object): string {
+  if (Array.isArray(value)) {
+    return `[Array(${value.length})]`;
+  }
+  const name = value.constructor && value.constructor.name;
+  return name && name !== 'Object' ? `[${name}]` : '[Object]';
+}
+
+/**
+ * Turn any value into plain JSON-safe data within the given limits. Reactive
+ * proxies and refs are unwrapped, values that cannot be serialized (functions,
+ * symbols, DOM nodes, components) are replaced by a short placeholder.
+ */
+export function normalize(value: unknown, options: Partial<NormalizeOptions> = {}): any {
+  const limits: NormalizeOptions = {
+    maxDepth: options.maxDepth ?? DEFAULT_OPTIONS.maxDepth,
+    maxBreadth: options.maxBreadth ?? DEFAULT_OPTIONS.maxBreadth,
+    maxStringLength: options.maxStringLength ?? DEFAULT_OPTIONS.maxStringLength
+  };
+  const seen = new WeakSet<object>();
+
+  const visit = (current: unknown, depth: number): any => {
+    if (isRef(current)) {
+      current = current.value;
+    }
+
+    switch (typeof current) {
+      case 'string':
+        return truncate(current, limits.maxStringLength);
+      case 'number':
+        return Number.isFinite(current) ? current : String(current);
+      case 'boolean':
+        return current;
+      case 'undefined':
+        return '[Undefined]';
+      case 'bigint':
+        return `[BigInt: ${current.toString()}]`;
+      case 'symbol':
+        return `[${current.toString()}]`;
+      case 'function':
+        return `[Function: ${current.name || 'anonymous'}]`;
+    }
+
+    if (current === null) return null;
+
+    const raw = toRaw(current as object);
+
+    if (raw instanceof Date) {
+      return isNaN(raw.getTime()) ? '[Invalid Date]' : raw.toISOString();
+    }
+    if (raw instanceof RegExp) {
+      return raw.toString();
+    }
+    if (raw instanceof Error) {
+      return { name: raw.name, message: truncate(raw.message, limits.maxStringLength) };
+    }
+    if (typeof Element !== 'undefined' && raw instanceof Element) {
+      return `[Element: ${describeElement(raw)}]`;
+    }
+    // VNodes and component instances drag the whole app along
+    if ((raw as any).__v_isVNode) {
+      return '[VNode]';
+    }
+    if ((raw as any).$ && (raw as any).$.uid !== undefined) {
+      return '[ComponentInstance]';
+    }
+
+    if (seen.has(raw)) {
+      return '[Circular]';
+    }
+    if (depth >= limits.maxDepth) {
+      return describeObject(raw);
+    }
+    seen.add(raw);
+
+    let result: any;
+    if (Array.isArray(raw) || raw instanceof Set) {
+      const items = Array.from(raw as Iterable<unknown>);
+      result = items.slice(0, limits.maxBreadth).map(item => visit(item, depth + 1));
+      if (items.length > limits.maxBreadth) {
+        result.push(`[...${items.length - limits.maxBreadth} more]`);
+      }
+    } else {
+      const entries = raw instanceof Map
+        ? Array.from(raw.entries()).map(([key, item]) => [String(key), item] as [string, unknown])
+        : Object.entries(raw);
+
+      result = {};
+      for (const [key, item] of entries.slice(0, limits.maxBreadth)) {
+        result[key] = visit(item, depth + 1);
+      }
+      if (entries.length > limits.maxBreadth) {
+        result['...'] = `${entries.length - limits.maxBreadth} more keys`;
+      }
+    }
+
+    // Siblings may reference the same object without being a cycle
+    seen.delete(raw);
+    return result;
+  };
+
+  return visit(value, 0);
+}
+
+/**
+ * Normalize a value so that its JSON stays under maxSize characters, nesting
+ * is reduced one level at a time. Returns undefined when even the top level
+ * alone is too large.
+ */
+export function normalizeToSize(value: unknown, maxSize: number, options: Partial<NormalizeOptions> = {}): any {
+  for (let maxDepth = options.maxDepth ?? DEFAULT_OPTIONS.maxDepth; maxDepth >= 1; maxDepth--) {
+    const normalized = normalize(value, { ...options, maxDepth });
+    if (JSON.stringify(normalized).length <= maxSize) {
+      return normalized;
+    }
+  }
+  return undefined;
+}
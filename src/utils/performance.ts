@@ -1,3 +1,6 @@
+import { StackFrame, NavigationTimingInfo } from '../types';
+import { parseStackTrace, findCulpritFrame } from './stackTrace';
+
 export interface PerformanceMetrics {
   startTime: number;
   endTime?: number;
@@ -96,7 +99,7 @@ export function debounce<T extends (...args: any[]) => any>(
   wait: number,
   immediate: boolean = false
 ): (...args: Parameters<T>) => void {
-  let timeout: number | null = null;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
   
   return function executedFunction(...args: Parameters<T>) {
     const later = () => {
@@ -110,7 +113,7 @@ export function debounce<T extends (...args: any[]) => any>(
       clearTimeout(timeout);
     }
     
-    timeout = window.setTimeout(later, wait);
+    timeout = setTimeout(later, wait);
     
     if (callNow) {
       func(...args);
@@ -193,38 +196,28 @@ export function extractErrorInfo(error: Error): {
   name: string;
   message: string;
   stack?: string;
+  frames: StackFrame[];
   file?: string;
   line?: number;
   column?: number;
 } {
+  const frames = parseStackTrace(error.stack);
   const info = {
     name: error.name || 'Error',
     message: error.message || 'Unknown error',
-    stack: error.stack
+    stack: error.stack,
+    frames
   };
 
-  // Try to extract file, line, and column from stack trace
-  if (error.stack) {
-    const stackLines = error.stack.split('\n');
-    const relevantLine = stackLines.find(line => 
-      line.includes('.js:') || line.includes('.ts:') || line.includes('.vue:')
-    );
-    
-    if (relevantLine) {
-      // Match different stack trace formats
-      const match = relevantLine.match(/(?:at\s+.*\()?([^()]+):(\d+):(\d+)/) ||
-                   relevantLine.match(/([^@]+)@([^:]+):(\d+):(\d+)/) ||
-                   relevantLine.match(/([^:]+):(\d+):(\d+)/);
-      
-      if (match) {
-        return {
-          ...info,
-          file: match[1] || match[2],
-          line: parseInt(match[2] || match[3], 10),
-          column: parseInt(match[3] || match[4], 10)
-        };
-      }
-    }
+  const frame = findCulpritFrame(frames);
+
+  if (frame) {
+    return {
+      ...info,
+      file: frame.filename,
+      line: frame.line,
+      column: frame.column
+    };
   }
 
   return info;
@@ -279,16 +272,40 @@ export function getBrowserInfo(): {
   return { name, version, platform, mobile };
 }
 
+export function getNavigationTiming(): NavigationTimingInfo | undefined {
+  if (typeof window === 'undefined' || !window.performance || typeof window.performance.getEntriesByType !== 'function') {
+    return undefined;
+  }
+
+  const entry = window.performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+  if (!entry) {
+    return undefined;
+  }
+
+  return {
+    type: entry.type,
+    redirectCount: entry.redirectCount,
+    responseStart: Math.round(entry.responseStart),
+    domInteractive: Math.round(entry.domInteractive),
+    domContentLoadedEventEnd: Math.round(entry.domContentLoadedEventEnd),
+    loadEventEnd: Math.round(entry.loadEventEnd),
+    duration: Math.round(entry.duration),
+    transferSize: entry.transferSize
+  };
+}
+
 export function getPerformanceInfo(): {
   memory?: number;
-  timing?: any;
-  navigation?: any;
+  navigation?: NavigationTimingInfo;
 } {
   if (typeof window === 'undefined' || !window.performance) {
     return {};
   }
 
-  const info: any = {};
+  const info: {
+    memory?: number;
+    navigation?: NavigationTimingInfo;
+  } = {};
 
   // Memory information (Chrome only)
   if ('memory' in window.performance) {
@@ -298,21 +315,10 @@ export function getPerformanceInfo(): {
     }
   }
 
-  // Navigation timing
-  if (window.performance.timing) {
-    info.timing = {
-      navigationStart: window.performance.timing.navigationStart,
-      loadEventEnd: window.performance.timing.loadEventEnd,
-      domContentLoadedEventEnd: window.performance.timing.domContentLoadedEventEnd
-    };
-  }
-
-  // Navigation type
-  if (window.performance.navigation) {
-    info.navigation = {
-      type: window.performance.navigation.type,
-      redirectCount: window.performance.navigation.redirectCount
-    };
+  // Navigation Timing Level 2 entry of the current document
+  const navigation = getNavigationTiming();
+  if (navigation) {
+    info.navigation = navigation;
   }
 
   return info;
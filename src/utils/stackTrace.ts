@@ -0,0 +1,125 @@
+import { StackFrame } from '../types';
+
+const V8_FRAME = /^\s*at (.*?)\s*$/;
+const V8_EVAL_ORIGIN = /\((\S+?):(\d+):(\d+)\)/;
+const LOCATION = /^(.*?):(\d+)(?::(\d+))?$/;
+const GECKO_EVAL = /^(\S+) line (\d+)(?: > eval line \d+)* > (?:eval|Function)/;
+const NOT_IN_APP = [
+  /\/node_modules\//,
+  /^(?:chrome|moz|safari|safari-web)-extension:\/\//,
+  /\/@vite\//,
+  /\/\.vite\/deps\//,
+  /^\[native code\]$/,
+  /^native$/,
+  /^<anonymous>$/
+];
+
+const UNKNOWN_FUNCTION = '<anonymous>';
+
+/**
+ * Parse an `Error.stack` string from V8 (Chrome, Edge, Node), SpiderMonkey (Firefox)
+ * or JavaScriptCore (Safari) into structured frames, most recent call first.
+ */
+export function parseStackTrace(stack: string | undefined): StackFrame[] {
+  if (!stack) return [];
+
+  const lines = stack.split('\n');
+  const isV8 = lines.some(line => V8_FRAME.test(line));
+  const frames: StackFrame[] = [];
+
+  for (const line of lines) {
+    const frame = isV8 ? parseV8Line(line) : parseGeckoLine(line);
+    if (frame) {
+      frames.push(frame);
+    }
+  }
+
+  return frames;
+}
+
+// The frame an error is attributed to: the most recent application frame, falling back to the top frame
+export function findCulpritFrame(frames: StackFrame[]): StackFrame | undefined {
+  const located = frames.filter(frame => frame.line !== undefined);
+  return located.find(frame => frame.in_app) || located[0];
+}
+
+export function isInAppFilename(filename: string): boolean {
+  return !NOT_IN_APP.some(pattern => pattern.test(filename));
+}
+
+function parseV8Line(line: string): StackFrame | null {
+  const match = line.match(V8_FRAME);
+  if (!match || !match[1]) return null;
+
+  let body = match[1];
+  let func = '';
+  let location = body;
+
+  const parenIndex = body.indexOf(' (');
+  if (body.endsWith(')') && parenIndex !== -1) {
+    func = body.slice(0, parenIndex);
+    location = body.slice(parenIndex + 2, -1);
+  } else if (body.startsWith('async ')) {
+    location = body.slice('async '.length);
+  }
+
+  func = func.replace(/^async /, '');
+
+  // eval frames point at the script that called eval
+  if (location.startsWith('eval at ')) {
+    const evalMatch = location.match(V8_EVAL_ORIGIN);
+    if (evalMatch) {
+      return createFrame(func || 'eval', evalMatch[1]!, evalMatch[2], evalMatch[3]);
+    }
+  }
+
+  const locationMatch = location.match(LOCATION);
+  if (locationMatch) {
+    return createFrame(func, locationMatch[1]!, locationMatch[2], locationMatch[3]);
+  }
+
+  return createFrame(func, location);
+}
+
+function parseGeckoLine(line: string): StackFrame | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  const atIndex = trimmed.indexOf('@');
+  const func = atIndex === -1 ? '' : trimmed.slice(0, atIndex).replace(/^async\*/, '');
+  const location = atIndex === -1 ? trimmed : trimmed.slice(atIndex + 1);
+
+  const evalMatch = location.match(GECKO_EVAL);
+  if (evalMatch) {
+    return createFrame(func || 'eval', evalMatch[1]!, evalMatch[2]);
+  }
+
+  const locationMatch = location.match(LOCATION);
+  if (locationMatch) {
+    return createFrame(func, locationMatch[1]!, locationMatch[2], locationMatch[3]);
+  }
+
+  // JavaScriptCore reports built-ins as "name@[native code]"
+  if (atIndex !== -1 && location === '[native code]') {
+    return createFrame(func, location);
+  }
+
+  return null;
+}
+
+function createFrame(func: string, filename: string, line?: string, column?: string): StackFrame {
+  const frame: StackFrame = {
+    function: func || UNKNOWN_FUNCTION,
+    filename,
+    in_app: isInAppFilename(filename)
+  };
+
+  if (line) {
+    frame.line = parseInt(line, 10);
+  }
+  if (column) {
+    frame.column = parseInt(column, 10);
+  }
+
+  return frame;
+}
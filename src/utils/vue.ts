@@ -0,0 +1,171 @@
+import { ComponentInternalInstance, ComponentPublicInstance } from 'vue';
+import { ComponentTraceEntry, ErrorExplorerConfig, VueErrorInfo } from '../types';
+import type { ErrorReporter } from '../services/ErrorReporter';
+import { SecurityValidator } from '../services/SecurityValidator';
+import { NormalizeOptions, normalizeToSize } from './normalize';
+
+type TraceMasker = Pick<SecurityValidator, 'sanitizeText' | 'isSensitiveKey'>;
+
+const MAX_TRACE_PROPS = 5;
+const MAX_PROP_LENGTH = 50;
+
+export interface PropsSanitizeOptions extends NormalizeOptions {
+  maxSize: number; // Serialized size in characters
+  allowlist: Array<string | RegExp>; // Empty keeps every prop
+  denylist: Array<string | RegExp>;
+}
+
+export function getComponentName(instance: ComponentInternalInstance | null | undefined): string {
+  if (!instance) {
+    return 'Unknown';
+  }
+
+  const type = instance.type as { name?: string; displayName?: string; __name?: string };
+  return type.name || type.displayName || type.__name || (instance.parent ? 'Anonymous' : 'Root');
+}
+
+// Build tools set absolute paths, everything before the project sources is noise
+function getComponentFile(instance: ComponentInternalInstance): string | undefined {
+  const file = (instance.type as { __file?: string }).__file;
+  if (!file) return undefined;
+
+  const sourceIndex = file.lastIndexOf('/src/');
+  return sourceIndex >= 0 ? file.slice(sourceIndex + 1) : file.split('/').pop();
+}
+
+// Only scalar props identify an instance (ids, slugs, variants), objects are left out
+function getKeyProps(instance: ComponentInternalInstance, masker: TraceMasker): Record<string, string | number | boolean> | undefined {
+  const props: Record<string, string | number | boolean> = {};
+  let count = 0;
+
+  for (const [name, value] of Object.entries(instance.props || {})) {
+    if (count >= MAX_TRACE_PROPS) break;
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') continue;
+
+    if (masker.isSensitiveKey(name)) {
+      props[name] = '[REDACTED]';
+    } else if (typeof value === 'string') {
+      const sanitized = masker.sanitizeText(value);
+      props[name] = sanitized.length > MAX_PROP_LENGTH ? `${sanitized.slice(0, MAX_PROP_LENGTH)}...` : sanitized;
+    } else {
+      props[name] = value;
+    }
+    count++;
+  }
+
+  return count > 0 ? props : undefined;
+}
+
+/**
+ * Describe the failing instance and its ancestors, innermost first. Past
+ * maxDepth the middle of the tree is replaced by a placeholder, the root
+ * component is always kept.
+ */
+export function getComponentHierarchy(
+  instance: ComponentInternalInstance | null | undefined,
+  masker: TraceMasker,
+  maxDepth: number = 10
+): ComponentTraceEntry[] {
+  const instances: ComponentInternalInstance[] = [];
+  for (let current = instance; current; current = current.parent) {
+    instances.push(current);
+  }
+
+  const describe = (current: ComponentInternalInstance): ComponentTraceEntry => {
+    const entry: ComponentTraceEntry = { name: getComponentName(current) };
+    const file = getComponentFile(current);
+    const key = current.vnode.key;
+    const props = getKeyProps(current, masker);
+
+    if (file) entry.file = file;
+    if (typeof key === 'string' || typeof key === 'number') entry.key = typeof key === 'string' ? masker.sanitizeText(key) : key;
+    if (props) entry.props = props;
+    return entry;
+  };
+
+  if (maxDepth <= 0) return [];
+  if (instances.length <= maxDepth) {
+    return instances.map(describe);
+  }
+
+  const kept = instances.slice(0, Math.max(maxDepth - 1, 1)).map(describe);
+  if (maxDepth > 1) {
+    kept.push({ name: '...', omitted: instances.length - maxDepth });
+    kept.push(describe(instances[instances.length - 1]!));
+  }
+  return kept;
+}
+
+function matchesPropName(name: string, patterns: Array<string | RegExp>): boolean {
+  return patterns.some(pattern => typeof pattern === 'string' ? pattern === name : pattern.test(name));
+}
+
+/**
+ * Reduce component props to plain data that fits in an error report. When
+ * the result is still larger than maxSize, nesting is reduced one level at a
+ * time before giving up on the values and only keeping the prop names.
+ */
+export function sanitizeProps(
+  props: Record<string, any> | null | undefined,
+  options: Partial<PropsSanitizeOptions> = {}
+): Record<string, any> | undefined {
+  if (!props) return undefined;
+
+  const { maxSize = 4096, allowlist = [], denylist = [], ...limits } = options;
+  const selected: Record<string, any> = {};
+
+  for (const name of Object.keys(props)) {
+    if (allowlist.length > 0 && !matchesPropName(name, allowlist)) continue;
+    selected[name] = matchesPropName(name, denylist) ? '[Filtered]' : props[name];
+  }
+
+  const names = Object.keys(selected);
+  if (names.length === 0) return undefined;
+
+  const normalized = normalizeToSize(selected, maxSize, limits);
+  if (normalized !== undefined) {
+    return normalized;
+  }
+
+  return names.reduce<Record<string, string>>((truncated, name) => {
+    truncated[name] = '[Truncated]';
+    return truncated;
+  }, {});
+}
+
+export function getPropsSanitizeOptions(config: ErrorExplorerConfig): Partial<PropsSanitizeOptions> {
+  return {
+    maxDepth: config.propsMaxDepth,
+    maxBreadth: config.propsMaxBreadth,
+    maxStringLength: config.propsMaxStringLength,
+    maxSize: config.propsMaxSize,
+    allowlist: config.propsAllowlist,
+    denylist: config.propsDenylist
+  };
+}
+
+/**
+ * Vue context of an error caught by an error handler or an error boundary.
+ * Without a reporter, props are normalized with the default limits and the
+ * hierarchy is left out.
+ */
+export function getVueErrorInfo(
+  instance: ComponentPublicInstance | null | undefined,
+  info: string,
+  reporter: ErrorReporter | null
+): VueErrorInfo {
+  // Vue hands over the public proxy, props and parents live on the internal instance
+  const internal = instance?.$;
+  const config = reporter?.getConfig();
+  const vueInfo: VueErrorInfo = {
+    componentName: getComponentName(internal),
+    propsData: sanitizeProps(internal?.props, config && getPropsSanitizeOptions(config)),
+    lifecycle: info
+  };
+
+  if (reporter && config) {
+    vueInfo.componentHierarchy = getComponentHierarchy(internal, reporter.getSecurityValidator(), config.componentTraceDepth);
+  }
+
+  return vueInfo;
+}
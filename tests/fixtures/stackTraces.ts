@@ -0,0 +1,34 @@
+// Error.stack samples captured from each engine
+
+export const CHROME_STACK = `TypeError: Cannot read properties of undefined (reading 'id')
+    at UserProfile.setup (http://localhost:5173/src/components/UserProfile.vue:42:17)
+    at callWithErrorHandling (http://localhost:5173/node_modules/.vite/deps/vue.js?v=1a2b:1660:19)
+    at http://localhost:5173/src/main.ts:12:5
+    at async loadUser (http://localhost:5173/src/stores/user.ts:8:3)
+    at Array.map (<anonymous>)
+    at new Promise (<anonymous>)`;
+
+export const CHROME_EVAL_STACK = `Error: from eval
+    at eval (eval at compile (http://example.com/js/app.js:10:5), <anonymous>:1:7)
+    at compile (http://example.com/js/app.js:10:5)`;
+
+export const CHROME_MINIFIED_STACK = `Error: boom
+    at n.value (https://cdn.example.com/assets/app.3f9a.js:1:48211)
+    at https://cdn.example.com/assets/vendor.91bc.js:2:1033`;
+
+export const FIREFOX_STACK = `setup@http://localhost:5173/src/components/UserProfile.vue:42:17
+callWithErrorHandling@http://localhost:5173/node_modules/@vue/runtime-core/dist/runtime-core.esm-bundler.js:157:18
+@http://localhost:5173/src/main.ts:12:5
+async*loadUser@http://localhost:5173/src/stores/user.ts:8:3
+`;
+
+export const FIREFOX_EVAL_STACK = `@http://example.com/js/app.js line 10 > eval:1:7
+compile@http://example.com/js/app.js:10:5
+run@http://example.com/js/app.js line 20 > Function:3:1`;
+
+export const SAFARI_STACK = `setup@http://localhost:5173/src/components/UserProfile.vue:42:17
+callWithErrorHandling@http://localhost:5173/node_modules/@vue/runtime-core/dist/runtime-core.esm-bundler.js:157:18
+http://localhost:5173/src/main.ts:12:5
+map@[native code]
+eval code@
+global code@http://localhost:5173/src/main.ts:20:1`;
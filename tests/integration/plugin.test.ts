@@ -230,12 +230,17 @@ describe('ErrorExplorer Vue Plugin', () => {
   });
 
   describe('Navigation Tracking', () => {
-    it('should track navigation with Vue Router mixin', () => {
-      app.use(ErrorExplorerPlugin, config);
+    it('should track navigation with router hooks', () => {
+      const router = {
+        beforeEach: jest.fn(() => () => {}),
+        afterEach: jest.fn(() => () => {}),
+        onError: jest.fn(() => () => {})
+      };
+
+      app.use(ErrorExplorerPlugin, { ...config, router });
 
-      // Check if navigation mixin is added
-      const mixins = app.config.globalProperties;
-      expect(app.mixin).toBeDefined();
+      expect(router.afterEach).toHaveBeenCalled();
+      expect(router.onError).toHaveBeenCalled();
     });
   });
 
@@ -1,52 +1,6 @@
 // Test setup file
 import '@testing-library/jest-dom';
 
-// Mock window and navigator for browser environment
-Object.defineProperty(window, 'location', {
-  value: {
-    href: 'http://localhost:3000',
-    hostname: 'localhost',
-    pathname: '/',
-    search: '',
-    hash: ''
-  },
-  writable: true
-});
-
-Object.defineProperty(window, 'navigator', {
-  value: {
-    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-    language: 'en-US',
-    cookieEnabled: true,
-    onLine: true,
-    platform: 'MacIntel'
-  },
-  writable: true
-});
-
-Object.defineProperty(window, 'screen', {
-  value: {
-    width: 1920,
-    height: 1080,
-    colorDepth: 24
-  },
-  writable: true
-});
-
-// Mock performance API
-Object.defineProperty(window, 'performance', {
-  value: {
-    now: jest.fn(() => Date.now()),
-    memory: {
-      usedJSHeapSize: 1000000,
-      totalJSHeapSize: 2000000,
-      jsHeapSizeLimit: 3000000
-    }
-  },
-  writable: true
-});
-
-// Mock localStorage
 const localStorageMock = {
   getItem: jest.fn(),
   setItem: jest.fn(),
@@ -55,9 +9,59 @@ const localStorageMock = {
   length: 0,
   key: jest.fn()
 };
-Object.defineProperty(window, 'localStorage', {
-  value: localStorageMock
-});
+
+// Suites running in the node environment (SSR) have no window
+if (typeof window !== 'undefined') {
+  // Mock window and navigator for browser environment
+  Object.defineProperty(window, 'location', {
+    value: {
+      href: 'http://localhost:3000',
+      hostname: 'localhost',
+      pathname: '/',
+      search: '',
+      hash: ''
+    },
+    writable: true
+  });
+
+  Object.defineProperty(window, 'navigator', {
+    value: {
+      userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
+      language: 'en-US',
+      cookieEnabled: true,
+      onLine: true,
+      platform: 'MacIntel'
+    },
+    writable: true
+  });
+
+  Object.defineProperty(window, 'screen', {
+    value: {
+      width: 1920,
+      height: 1080,
+      colorDepth: 24
+    },
+    writable: true
+  });
+
+  // Mock performance API
+  Object.defineProperty(window, 'performance', {
+    value: {
+      now: jest.fn(() => Date.now()),
+      memory: {
+        usedJSHeapSize: 1000000,
+        totalJSHeapSize: 2000000,
+        jsHeapSizeLimit: 3000000
+      }
+    },
+    writable: true
+  });
+
+  // Mock localStorage
+  Object.defineProperty(window, 'localStorage', {
+    value: localStorageMock
+  });
+}
 
 // Reset mocks before each test
 beforeEach(() => {
@@ -0,0 +1,137 @@
+import { createApp, defineComponent, h, nextTick, ref } from 'vue';
+import { ErrorBoundary } from '../../../src/components/ErrorBoundary';
+import { getErrorExplorer } from '../../../src/plugin';
+
+jest.mock('../../../src/plugin', () => ({
+  getErrorExplorer: jest.fn()
+}));
+
+const addBreadcrumb = jest.fn();
+const captureException = jest.fn().mockResolvedValue(undefined);
+const captureMessage = jest.fn().mockResolvedValue(undefined);
+const reporter = { addBreadcrumb, captureException, captureMessage, getConfig: () => undefined };
+
+const Broken = defineComponent({
+  name: 'BrokenWidget',
+  props: { fail: { type: Boolean, default: true } },
+  setup(props) {
+    return () => {
+      if (props.fail) {
+        throw new Error('Widget exploded');
+      }
+      return h('p', 'Widget content');
+    };
+  }
+});
+
+describe('ErrorBoundary', () => {
+  let container: HTMLElement;
+
+  const mount = (render: () => any) => {
+    const app = createApp({ render });
+    app.config.errorHandler = jest.fn();
+    app.config.warnHandler = () => {};
+    app.mount(container);
+    return app;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getErrorExplorer as jest.Mock).mockReturnValue(reporter);
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  it('should render the default slot when nothing fails', () => {
+    mount(() => h(ErrorBoundary, null, () => h(Broken, { fail: false })));
+
+    expect(container.textContent).toBe('Widget content');
+    expect(captureException).not.toHaveBeenCalled();
+  });
+
+  it('should report caught errors with the boundary name and stop propagation', async () => {
+    const onError = jest.fn();
+    const app = mount(() => h(ErrorBoundary, { name: 'sidebar', onError }, () => h(Broken)));
+    await nextTick();
+
+    expect(captureException).toHaveBeenCalledWith(expect.objectContaining({ message: 'Widget exploded' }), {
+      vue: expect.objectContaining({ componentName: 'BrokenWidget', errorBoundary: 'sidebar', propsData: { fail: true } }),
+      error_info: expect.any(String)
+    });
+    expect(addBreadcrumb).toHaveBeenCalledWith(expect.stringContaining('caught by sidebar'), 'vue.error', 'error', expect.any(Object));
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), expect.anything(), expect.any(String));
+    expect(app.config.errorHandler).not.toHaveBeenCalled();
+    expect(container.querySelector('[role="alert"]')?.textContent).toContain('Widget exploded');
+  });
+
+  it('should render the fallback slot and reset', async () => {
+    const fail = ref(true);
+    mount(() => h(ErrorBoundary, null, {
+      default: () => h(Broken, { fail: fail.value }),
+      fallback: ({ error, reset }: { error: Error; reset: () => void }) =>
+        h('button', { onClick: () => { fail.value = false; reset(); } }, `Retry after: ${error.message}`)
+    }));
+    await nextTick();
+
+    const button = container.querySelector('button')!;
+    expect(button.textContent).toBe('Retry after: Widget exploded');
+
+    button.click();
+    await nextTick();
+
+    expect(container.textContent).toBe('Widget content');
+  });
+
+  it('should reset when a reset key changes', async () => {
+    const fail = ref(true);
+    const path = ref('/a');
+    mount(() => h(ErrorBoundary, { resetKeys: [path.value] }, () => h(Broken, { fail: fail.value })));
+    await nextTick();
+    expect(container.querySelector('[role="alert"]')).not.toBeNull();
+
+    fail.value = false;
+    await nextTick();
+    expect(container.querySelector('[role="alert"]')).not.toBeNull();
+
+    path.value = '/b';
+    await nextTick();
+    await nextTick();
+    expect(container.textContent).toBe('Widget content');
+  });
+
+  it('should send user feedback from the dialog', async () => {
+    mount(() => h(ErrorBoundary, { name: 'checkout', showDialog: { labelSubmit: 'Send' } }, () => h(Broken)));
+    await nextTick();
+
+    const textarea = container.querySelector('textarea')!;
+    textarea.value = 'I clicked pay twice';
+    textarea.dispatchEvent(new Event('input'));
+
+    const submit = Array.from(container.querySelectorAll('button')).find(button => button.textContent === 'Send')!;
+    submit.click();
+    await nextTick();
+
+    expect(captureMessage).toHaveBeenCalledWith('User feedback: I clicked pay twice', 'info', {
+      type: 'userFeedback',
+      feedback: {
+        comments: 'I clicked pay twice',
+        exception_class: 'Error',
+        message: 'Widget exploded',
+        errorBoundary: 'checkout'
+      }
+    });
+    expect(container.querySelector('[role="dialog"]')?.textContent).toContain('Thank you for your feedback!');
+  });
+
+  it('should report to the reporter of its own app', async () => {
+    const app = mount(() => h(ErrorBoundary, null, () => h(Broken)));
+    await nextTick();
+
+    expect(getErrorExplorer).toHaveBeenCalledWith(app);
+    expect(captureException).toHaveBeenCalledTimes(1);
+  });
+});
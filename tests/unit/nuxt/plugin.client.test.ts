@@ -0,0 +1,60 @@
+import { createApp, h } from 'vue';
+import { getErrorExplorer } from '../../../src/plugin';
+import { Transport, TransportRequest } from '../../../src/types';
+
+const requests: TransportRequest[] = [];
+const transport: Transport = {
+  send: jest.fn(async (request: TransportRequest) => {
+    requests.push(request);
+    return { ok: true, status: 200 };
+  })
+};
+const router = {
+  beforeEach: jest.fn(() => () => {}),
+  afterEach: jest.fn(() => () => {}),
+  currentRoute: { value: { path: '/cart', fullPath: '/cart' } }
+};
+
+jest.mock('#app', () => ({
+  defineNuxtPlugin: (plugin: unknown) => plugin,
+  useRuntimeConfig: () => ({
+    public: {
+      errorExplorer: {
+        webhookUrl: 'https://errors.example.com/webhook/abc',
+        projectName: 'shop',
+        environment: 'staging',
+        enableBatching: false,
+        enableOfflineSupport: false,
+        transport
+      }
+    }
+  }),
+  useRouter: () => router
+}), { virtual: true });
+
+import plugin from '../../../src/nuxt/runtime/plugin.client';
+
+describe('Nuxt client plugin', () => {
+  it('should install the plugin on the Nuxt app and report app:error', async () => {
+    const hooks: Record<string, (...args: any[]) => void> = {};
+    const vueApp = createApp({ render: () => h('div') });
+    const nuxtApp = { vueApp, hook: (name: string, hook: (...args: any[]) => void) => { hooks[name] = hook; } };
+
+    (plugin as any).setup(nuxtApp);
+    const reporter = getErrorExplorer(vueApp)!;
+
+    try {
+      expect(reporter.getConfig().captureHydrationMismatches).toBe(true);
+      expect(router.afterEach).toHaveBeenCalled();
+
+      hooks['app:error']!(new Error('Middleware failed'));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const payload = JSON.parse(requests[0]!.body as string);
+      expect(payload.message).toBe('Middleware failed');
+      expect(payload.context.type).toBe('nuxtAppError');
+    } finally {
+      reporter.destroy();
+    }
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+import { createSSRApp, defineComponent, h } from 'vue';
+import { renderToString } from 'vue/server-renderer';
+import { getErrorExplorer } from '../../../src/plugin';
+import { Transport, TransportRequest } from '../../../src/types';
+
+const requests: TransportRequest[] = [];
+const transport: Transport = {
+  send: jest.fn(async (request: TransportRequest) => {
+    requests.push(request);
+    return { ok: true, status: 200 };
+  })
+};
+
+jest.mock('#app', () => ({
+  defineNuxtPlugin: (plugin: unknown) => plugin,
+  useRuntimeConfig: () => ({
+    public: {
+      errorExplorer: {
+        webhookUrl: 'https://errors.example.com/webhook/abc',
+        projectName: 'shop',
+        environment: 'staging',
+        duplicateErrorWindow: 0,
+        transport
+      }
+    }
+  })
+}), { virtual: true });
+
+import plugin from '../../../src/nuxt/runtime/plugin.server';
+
+// Node before 20.16, where AsyncLocalStorage cannot be detected
+const getBuiltinModule = (process as any).getBuiltinModule;
+(process as any).getBuiltinModule = undefined;
+
+describe('Nuxt server plugin', () => {
+  const setupRequest = (path: string, setup = () => () => h('div')) => {
+    const hooks: Record<string, (...args: any[]) => void> = {};
+    const vueApp = createSSRApp(defineComponent({ name: 'Page', setup }));
+    const nuxtApp = {
+      vueApp,
+      ssrContext: { event: { path, method: 'GET', node: { req: { headers: { 'user-agent': 'Mozilla/5.0' } } } } },
+      hook: (name: string, hook: (...args: any[]) => void) => { hooks[name] = hook; }
+    };
+
+    (plugin as any).setup(nuxtApp);
+    return { hooks, vueApp, api: vueApp.config.globalProperties.$errorExplorer };
+  };
+
+  const payloads = () => requests.map(request => JSON.parse(request.body as string));
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  afterAll(() => {
+    (process as any).getBuiltinModule = getBuiltinModule;
+  });
+
+  it('should report vue:error with the request of the page', async () => {
+    const { hooks } = setupRequest('/products/42?token=secret');
+
+    hooks['vue:error']!(new Error('Render failed'), null, 'render function');
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const [payload] = payloads();
+    expect(payload.message).toBe('Render failed');
+    expect(payload.context.request).toMatchObject({ url: '/products/42?token=[REDACTED]', method: 'GET' });
+    expect(payload.context.runtime).toEqual({ ssr: true });
+  });
+
+  it('should keep the user of each request to its own reports', async () => {
+    const first = setupRequest('/account');
+    const second = setupRequest('/cart');
+    first.api.setUser({ id: 'customer-1' });
+
+    await first.api.captureException(new Error('Account failed'));
+    await second.api.captureException(new Error('Cart failed'));
+
+    const byMessage = Object.fromEntries(payloads().map(payload => [payload.message, payload]));
+    expect(byMessage['Account failed'].user).toEqual({ id: 'customer-1' });
+    expect(byMessage['Cart failed'].user).toBeUndefined();
+    expect(byMessage['Cart failed'].context.request.url).toBe('/cart');
+  });
+
+  it('should give the components of a request its reporter', async () => {
+    const { vueApp } = setupRequest('/checkout', () => {
+      void getErrorExplorer()!.captureException(new Error('Shipping rates unavailable'));
+      return () => h('div');
+    });
+
+    await renderToString(vueApp);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const [payload] = payloads();
+    expect(payload.message).toBe('Shipping rates unavailable');
+    expect(payload.context.request.url).toBe('/checkout');
+    expect(getErrorExplorer()).toBeNull();
+  });
+
+  it('should keep the scopes of interleaved requests across awaits', async () => {
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    const handleRequest = async (orderId: number, wait: number) => {
+      const reporter = getErrorExplorer(setupRequest(`/orders/${orderId}`).vueApp)!;
+
+      await reporter.withScopeAsync(async () => {
+        await delay(wait);
+        reporter.setTag('order', String(orderId));
+        await delay(wait);
+        await reporter.captureException(new Error(`Order ${orderId} failed`));
+      });
+      await reporter.captureException(new Error(`Request ${orderId} done`));
+    };
+
+    await Promise.all([handleRequest(1, 20), handleRequest(2, 5)]);
+
+    const byMessage = Object.fromEntries(payloads().map(payload => [payload.message, payload]));
+    expect(byMessage['Order 1 failed'].tags).toEqual({ order: '1' });
+    expect(byMessage['Order 2 failed'].tags).toEqual({ order: '2' });
+    expect(byMessage['Order 2 failed'].context.request.url).toBe('/orders/2');
+    expect(byMessage['Request 1 done'].tags?.order).toBeUndefined();
+    expect(byMessage['Request 2 done'].tags?.order).toBeUndefined();
+  });
+});
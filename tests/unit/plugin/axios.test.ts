@@ -0,0 +1,175 @@
+import axios, { AxiosAdapter, AxiosInstance } from 'axios';
+import { instrumentAxiosInstance } from '../../../src/plugin/axios';
+import { BreadcrumbManager } from '../../../src/services/BreadcrumbManager';
+import { SecurityValidator } from '../../../src/services/SecurityValidator';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+import { Tracer } from '../../../src/services/Tracer';
+import { HttpInstrumentation } from '../../../src/services/HttpInstrumentation';
+import { HttpError } from '../../../src/errors';
+
+describe('instrumentAxiosInstance', () => {
+  let instance: AxiosInstance;
+  let adapter: jest.Mock;
+  let breadcrumbManager: BreadcrumbManager;
+  let tracer: Tracer;
+  let reporter: ErrorReporter;
+  let captureException: jest.Mock;
+  let uninstrument: () => void;
+
+  const respond = (status: number, data: any = {}): AxiosAdapter => async (config) => {
+    const response = { status, statusText: String(status), headers: { 'content-type': 'application/json' }, data, config, request: {} };
+    if (status >= 400) {
+      throw new axios.AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, {}, response as any);
+    }
+    return response;
+  };
+
+  beforeEach(() => {
+    adapter = jest.fn(respond(200));
+    instance = axios.create({ baseURL: 'http://localhost:3000/api', adapter: (config) => adapter(config) });
+
+    breadcrumbManager = new BreadcrumbManager();
+    tracer = new Tracer({ tracesSampleRate: 1 });
+    captureException = jest.fn().mockResolvedValue(undefined);
+    reporter = {
+      isEnabled: () => true,
+      getActiveTransaction: () => tracer.getActiveTransaction(),
+      getBreadcrumbManager: () => breadcrumbManager,
+      getSecurityValidator: () => new SecurityValidator(),
+      captureException
+    } as unknown as ErrorReporter;
+
+    uninstrument = instrumentAxiosInstance(instance, () => reporter);
+  });
+
+  it('should add a breadcrumb for successful requests', async () => {
+    await instance.get('/users', { params: { page: 2, token: 'abc' } });
+
+    const [breadcrumb] = breadcrumbManager.getBreadcrumbs();
+    expect(breadcrumb).toMatchObject({
+      category: 'http',
+      level: 'info',
+      data: {
+        method: 'GET',
+        url: 'http://localhost:3000/api/users?page=2&token=[REDACTED]',
+        status_code: 200
+      }
+    });
+    expect(breadcrumb!.data!.duration).toBeGreaterThanOrEqual(0);
+    expect(captureException).not.toHaveBeenCalled();
+  });
+
+  it('should capture server errors with response metadata', async () => {
+    adapter.mockImplementationOnce(respond(503, { error: 'maintenance' }));
+
+    await expect(instance.post('/orders')).rejects.toThrow('Request failed with status code 503');
+
+    expect(breadcrumbManager.getBreadcrumbs()[0]!.level).toBe('error');
+    const [error, context] = captureException.mock.calls[0]!;
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(503);
+    expect(context.http).toMatchObject({
+      method: 'POST',
+      url: 'http://localhost:3000/api/orders',
+      status_code: 503,
+      response: { status: 503, content_type: 'application/json', data: '{"error":"maintenance"}' }
+    });
+  });
+
+  it('should not capture client errors', async () => {
+    adapter.mockImplementationOnce(respond(404));
+
+    await expect(instance.get('/missing')).rejects.toThrow();
+
+    expect(breadcrumbManager.getBreadcrumbs()).toHaveLength(1);
+    expect(captureException).not.toHaveBeenCalled();
+  });
+
+  it('should capture network errors but not cancellations', async () => {
+    adapter.mockImplementationOnce(async (config) => {
+      throw new axios.AxiosError('Network Error', 'ERR_NETWORK', config);
+    });
+    await expect(instance.get('/users')).rejects.toThrow('Network Error');
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(instance.get('/users', { signal: controller.signal })).rejects.toThrow();
+
+    expect(captureException).toHaveBeenCalledTimes(1);
+    expect(captureException.mock.calls[0]![0].message).toBe('Network Error');
+  });
+
+  it('should add a span and trace header inside a transaction', async () => {
+    const transaction = tracer.startTransaction({ name: 'checkout' });
+    await instance.get('/cart');
+    transaction.finish();
+
+    const headers = adapter.mock.calls[0]![0].headers;
+    const [span] = transaction.toPayload().spans;
+    expect(span).toMatchObject({ op: 'http.client', description: 'GET http://localhost:3000/api/cart', status: 'ok' });
+    expect(headers.get('traceparent')).toBe(`00-${transaction.traceId}-${span!.span_id}-01`);
+  });
+
+  it('should not send the trace header to other origins', async () => {
+    const transaction = tracer.startTransaction({ name: 'checkout' });
+    await instance.get('https://api.other.com/cart');
+    transaction.finish();
+
+    expect(adapter.mock.calls[0]![0].headers.get('traceparent')).toBeUndefined();
+  });
+
+  it('should keep its requests out of the fetch instrumentation', async () => {
+    window.fetch = jest.fn().mockResolvedValue({ status: 200 });
+    const instrumented = jest.fn();
+    const instrumentation = new HttpInstrumentation({}, new SecurityValidator());
+    instrumentation.setHandler(instrumented);
+    instrumentation.instrument();
+    // Like the fetch adapter of axios, with the URL built from the same config
+    adapter.mockImplementationOnce(async (config) => {
+      await window.fetch(instance.getUri(config), { method: config.method });
+      return respond(200)(config);
+    });
+
+    try {
+      await instance.get('/users', { params: { page: 2 } });
+      await window.fetch('http://localhost:3000/api/users?page=2');
+    } finally {
+      instrumentation.destroy();
+    }
+
+    expect(breadcrumbManager.getBreadcrumbs()).toHaveLength(1);
+    expect(instrumented).toHaveBeenCalledTimes(1);
+  });
+
+  it('should release its claims when the reporter is gone before the response', async () => {
+    window.fetch = jest.fn().mockResolvedValue({ status: 200 });
+    const instrumented = jest.fn();
+    const instrumentation = new HttpInstrumentation({}, new SecurityValidator());
+    instrumentation.setHandler(instrumented);
+    instrumentation.instrument();
+    // Like an app unmounted while its requests are in flight, with the XHR adapter
+    adapter.mockImplementation(async (config) => {
+      reporter = null as unknown as ErrorReporter;
+      return respond(config.url === '/orders' ? 503 : 200)(config);
+    });
+
+    try {
+      await instance.get('/users');
+      await expect(instance.get('/orders')).rejects.toThrow();
+      await window.fetch('http://localhost:3000/api/users');
+      await window.fetch('http://localhost:3000/api/orders');
+    } finally {
+      instrumentation.destroy();
+    }
+
+    expect(instrumented).toHaveBeenCalledTimes(2);
+    expect(captureException).not.toHaveBeenCalled();
+  });
+
+  it('should remove its interceptors', async () => {
+    uninstrument();
+    await instance.get('/users');
+
+    expect(breadcrumbManager.getBreadcrumbs()).toHaveLength(0);
+  });
+});
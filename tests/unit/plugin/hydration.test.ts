@@ -0,0 +1,154 @@
+import { App, createSSRApp, defineComponent, h } from 'vue';
+import { instrumentHydrationMismatches, isHydrationMismatch } from '../../../src/plugin/hydration';
+import { HydrationMismatchError } from '../../../src/errors';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+import { RouteLocationLike } from '../../../src/types';
+
+describe('instrumentHydrationMismatches', () => {
+  let addBreadcrumb: jest.Mock;
+  let captureException: jest.Mock;
+  let reporter: ErrorReporter;
+  let route: RouteLocationLike | undefined;
+  let removers: Array<() => void>;
+
+  const PriceTag = defineComponent({
+    name: 'PriceTag',
+    setup: () => () => h('span', { class: 'price' }, 'client price')
+  });
+  const ProductPage = defineComponent({
+    name: 'ProductPage',
+    setup: () => () => h('div', [h('h1', 'Product'), h(PriceTag)])
+  });
+
+  const hydrate = (serverHtml: string): App => {
+    const container = document.createElement('div');
+    container.innerHTML = serverHtml;
+
+    const app = createSSRApp(ProductPage);
+    removers.push(instrumentHydrationMismatches(app, () => reporter, () => route));
+    app.mount(container);
+    return app;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    addBreadcrumb = jest.fn();
+    captureException = jest.fn().mockResolvedValue(undefined);
+    reporter = { addBreadcrumb, captureException } as unknown as ErrorReporter;
+    route = { path: '/products/1', fullPath: '/products/1?ref=home', matched: [{ path: '/products/:id' }] };
+    removers = [];
+  });
+
+  afterEach(() => {
+    removers.forEach(remove => remove());
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should recognize the development and production messages', () => {
+    expect(isHydrationMismatch('Hydration text content mismatch on <span>')).toBe(true);
+    expect(isHydrationMismatch('Hydration node mismatch:\n- rendered on server')).toBe(true);
+    expect(isHydrationMismatch('Hydration completed but contains mismatches.')).toBe(true);
+    expect(isHydrationMismatch('Missing required prop: "user"')).toBe(false);
+    expect(isHydrationMismatch(new Error('Hydration mismatch'))).toBe(false);
+  });
+
+  it('should report the mismatches of a hydration pass as one event', () => {
+    hydrate('<div><h1>Product</h1><span class="price">server price</span></div>');
+    expect(captureException).not.toHaveBeenCalled();
+
+    jest.runAllTimers();
+
+    expect(captureException).toHaveBeenCalledTimes(1);
+    const [error, context] = captureException.mock.calls[0];
+    expect(error).toBeInstanceOf(HydrationMismatchError);
+    expect(error.message).toBe('Hydration mismatch on /products/:id (1 mismatch)');
+    expect(context).toMatchObject({
+      type: 'hydrationMismatch',
+      level: 'warning',
+      fingerprint: ['hydration-mismatch', '/products/:id'],
+      hydration: { route: '/products/:id', path: '/products/1', count: 1 },
+      vue: { componentName: 'PriceTag', componentPath: 'ProductPage > PriceTag' }
+    });
+    expect(context.hydration.mismatches[0].message).toMatch(/^Hydration text content mismatch/);
+  });
+
+  it('should report a route only once', () => {
+    const app = hydrate('<div><h1>Product</h1><span class="price">server price</span></div>');
+    jest.runAllTimers();
+
+    route = { path: '/products/2', fullPath: '/products/2', matched: [{ path: '/products/:id' }] };
+    app.config.warnHandler!('Hydration node mismatch', null, '');
+    jest.runAllTimers();
+
+    expect(captureException).toHaveBeenCalledTimes(1);
+    expect(addBreadcrumb).toHaveBeenCalledWith(
+      'Hydration mismatch on /products/:id',
+      'vue.hydration',
+      'warning',
+      expect.objectContaining({ route: '/products/:id', message: 'Hydration node mismatch' })
+    );
+  });
+
+  it('should group another session on the same route', () => {
+    hydrate('<div><h1>Product</h1><span class="price">server price</span></div>');
+    route = { path: '/products/2', fullPath: '/products/2', matched: [{ path: '/products/:id' }] };
+    hydrate('<div><h1>Product</h1><span class="price">server price</span></div>');
+    jest.runAllTimers();
+
+    expect(captureException).toHaveBeenCalledTimes(2);
+    expect(captureException.mock.calls[1][1].fingerprint).toEqual(captureException.mock.calls[0][1].fingerprint);
+  });
+
+  it('should report the production summary with the current path', () => {
+    route = undefined;
+    const app = createSSRApp(ProductPage);
+    removers.push(instrumentHydrationMismatches(app, () => reporter, () => route));
+
+    console.error('Hydration completed but contains mismatches.');
+    jest.runAllTimers();
+
+    expect(captureException).toHaveBeenCalledWith(expect.any(HydrationMismatchError), expect.objectContaining({
+      fingerprint: ['hydration-mismatch', '/'],
+      hydration: expect.objectContaining({ count: 1 })
+    }));
+  });
+
+  it('should not report matching markup', () => {
+    hydrate('<div><h1>Product</h1><span class="price">client price</span></div>');
+    jest.runAllTimers();
+
+    expect(captureException).not.toHaveBeenCalled();
+  });
+
+  it('should keep calling the previous handlers and restore them', () => {
+    const previous = jest.fn();
+    const app = createSSRApp(ProductPage);
+    app.config.warnHandler = previous;
+    const consoleError = console.error;
+
+    const remove = instrumentHydrationMismatches(app, () => reporter, () => route);
+    app.config.warnHandler!('Hydration node mismatch', null, '');
+    console.error('Unrelated');
+
+    expect(previous).toHaveBeenCalledWith('Hydration node mismatch', null, '');
+    expect(consoleError).toHaveBeenCalledWith('Unrelated');
+
+    remove();
+    expect(app.config.warnHandler).toBe(previous);
+    expect(console.error).toBe(consoleError);
+  });
+
+  it('should leave a console.error installed after it in place', () => {
+    const app = createSSRApp(ProductPage);
+    const remove = instrumentHydrationMismatches(app, () => reporter, () => route);
+    const later = jest.fn();
+    console.error = later;
+
+    remove();
+
+    expect(console.error).toBe(later);
+  });
+});
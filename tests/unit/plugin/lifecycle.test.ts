@@ -0,0 +1,113 @@
+import { App, createApp, defineComponent, h, nextTick, ref } from 'vue';
+import { createLifecycleTrackingMixin, LifecycleTrackingOptions } from '../../../src/plugin/lifecycle';
+import { BreadcrumbManager } from '../../../src/services/BreadcrumbManager';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+import { Tracer } from '../../../src/services/Tracer';
+
+describe('createLifecycleTrackingMixin', () => {
+  let breadcrumbs: BreadcrumbManager;
+  let tracer: Tracer;
+  let reporter: ErrorReporter;
+  let container: HTMLElement;
+  let clock: number;
+  let apps: App[];
+
+  const count = ref(0);
+  let renderTime = 0;
+  const Counter = defineComponent({
+    name: 'CounterCard',
+    setup: () => () => {
+      clock += renderTime;
+      return h('span', `Count: ${count.value}`);
+    }
+  });
+  const Other = defineComponent({
+    name: 'FooterBar',
+    setup: () => () => h('footer', String(count.value))
+  });
+
+  const mount = (options: Partial<LifecycleTrackingOptions> = {}) => {
+    const app = createApp({ render: () => [h(Counter), h(Other)] });
+    app.mixin(createLifecycleTrackingMixin(() => reporter, {
+      components: ['CounterCard'],
+      slowUpdateThreshold: 50,
+      reportSlowComponents: false,
+      ...options
+    }));
+    app.mount(container);
+    apps.push(app);
+    return app;
+  };
+
+  beforeEach(() => {
+    count.value = 0;
+    clock = 1000;
+    renderTime = 0;
+    apps = [];
+    (performance.now as jest.Mock).mockImplementation(() => clock);
+    breadcrumbs = new BreadcrumbManager();
+    tracer = new Tracer({ tracesSampleRate: 1 });
+    reporter = {
+      getBreadcrumbManager: () => breadcrumbs,
+      isTracingEnabled: () => tracer.isEnabled(),
+      getActiveTransaction: () => tracer.getActiveTransaction(),
+      startTransaction: (options: any) => tracer.startTransaction(options)
+    } as unknown as ErrorReporter;
+    container = document.createElement('div');
+  });
+
+  afterEach(() => {
+    apps.forEach(app => app.unmount());
+    (performance.now as jest.Mock).mockImplementation(() => Date.now());
+  });
+
+  it('should record mount, update and unmount of tracked components only', async () => {
+    const app = mount();
+    count.value++;
+    await nextTick();
+    app.unmount();
+    apps = [];
+
+    expect(breadcrumbs.getBreadcrumbs().map(crumb => crumb.message)).toEqual([
+      'CounterCard: mounted (0ms)',
+      'CounterCard: updated (0ms)',
+      'CounterCard: unmounted'
+    ]);
+    expect(breadcrumbs.getBreadcrumbs()[0]).toMatchObject({ category: 'vue.lifecycle', level: 'debug' });
+  });
+
+  it('should match component names against regular expressions', () => {
+    mount({ components: [/Bar$/] });
+
+    expect(breadcrumbs.getBreadcrumbs().map(crumb => crumb.data?.component)).toEqual(['FooterBar']);
+  });
+
+  it('should flag and report slow updates', async () => {
+    const send = jest.fn();
+    tracer.setSendFunction(send);
+    mount({ reportSlowComponents: true });
+
+    renderTime = 80;
+    count.value++;
+    await nextTick();
+
+    const updated = breadcrumbs.getBreadcrumbs().find(crumb => crumb.data?.lifecycle === 'updated');
+    expect(updated).toMatchObject({ level: 'warning', data: { component: 'CounterCard', duration: 80, slow: true } });
+
+    expect(send).toHaveBeenCalledTimes(1);
+    const payload = send.mock.calls[0][0].toPayload();
+    expect(payload).toMatchObject({ name: 'CounterCard', op: 'ui.vue.update', duration: 80 });
+  });
+
+  it('should not report slow updates unless enabled', async () => {
+    const send = jest.fn();
+    tracer.setSendFunction(send);
+    mount();
+
+    renderTime = 100;
+    count.value++;
+    await nextTick();
+
+    expect(send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,165 @@
+import { reactive } from 'vue';
+import { createPiniaIntegration } from '../../../src/plugin/pinia';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+import { SecurityValidator } from '../../../src/services/SecurityValidator';
+import { PiniaActionContextLike, PiniaIntegrationOptions, PiniaStoreLike } from '../../../src/types';
+
+type Listener = (context: PiniaActionContextLike) => void;
+
+// Mimics how Pinia wraps actions and notifies $onAction subscribers
+function createStore(id: string, state: Record<string, any>, actions: Record<string, (...args: any[]) => any>) {
+  const listeners: Listener[] = [];
+  const store: PiniaStoreLike & Record<string, any> = {
+    $id: id,
+    $state: reactive(state),
+    $onAction(callback: Listener) {
+      listeners.push(callback);
+      return () => listeners.splice(listeners.indexOf(callback), 1);
+    },
+    $dispose() {
+      listeners.length = 0;
+    }
+  };
+
+  for (const [name, action] of Object.entries(actions)) {
+    store[name] = async (...args: any[]) => {
+      const afterCallbacks: Array<(result: any) => void> = [];
+      const errorCallbacks: Array<(error: unknown) => void> = [];
+      listeners.forEach(listener => listener({
+        name,
+        store,
+        args,
+        after: callback => afterCallbacks.push(callback),
+        onError: callback => errorCallbacks.push(callback)
+      }));
+
+      try {
+        const result = await action.apply(store, args);
+        afterCallbacks.forEach(callback => callback(result));
+        return result;
+      } catch (error) {
+        errorCallbacks.forEach(callback => callback(error));
+        throw error;
+      }
+    };
+  }
+
+  return store;
+}
+
+describe('createPiniaIntegration', () => {
+  let addBreadcrumb: jest.Mock;
+  let captureException: jest.Mock;
+  let providers: Record<string, () => any>;
+  let reporter: ErrorReporter | null;
+
+  const install = (options?: PiniaIntegrationOptions) => {
+    const plugin = createPiniaIntegration(() => reporter, options);
+    const cart = createStore('cart', { items: [{ sku: 'A1', quantity: 2 }], coupon: null }, {
+      async addItem(this: any, sku: string) {
+        this.$state.items.push({ sku, quantity: 1 });
+      },
+      async checkout() {
+        throw new Error('Payment declined');
+      }
+    });
+    const session = createStore('session', { token: 'abc' }, {});
+
+    plugin({ store: cart });
+    plugin({ store: session });
+    return { cart, session };
+  };
+
+  beforeEach(() => {
+    addBreadcrumb = jest.fn();
+    captureException = jest.fn().mockResolvedValue(undefined);
+    providers = {};
+    reporter = {
+      addBreadcrumb,
+      captureException,
+      getSecurityValidator: () => new SecurityValidator(),
+      addContextProvider: jest.fn((key: string, provider: () => any) => {
+        providers[key] = provider;
+        return () => {};
+      })
+    } as unknown as ErrorReporter;
+  });
+
+  it('should record successful actions as breadcrumbs', async () => {
+    const { cart } = install();
+    await cart.addItem('B2');
+
+    expect(addBreadcrumb).toHaveBeenCalledWith('Pinia action cart.addItem', 'pinia.action', 'info', {
+      store: 'cart',
+      action: 'addItem',
+      status: 'success',
+      duration: expect.any(Number)
+    });
+  });
+
+  it('should record and capture action errors', async () => {
+    const { cart } = install();
+    await expect(cart.checkout()).rejects.toThrow('Payment declined');
+
+    expect(addBreadcrumb).toHaveBeenCalledWith('Pinia action cart.checkout failed', 'pinia.action', 'error', expect.objectContaining({ status: 'error' }));
+    expect(captureException).toHaveBeenCalledWith(expect.objectContaining({ message: 'Payment declined' }), {
+      type: 'piniaActionError',
+      pinia_action: { store: 'cart', action: 'checkout' }
+    });
+  });
+
+  it('should not capture action errors when disabled', async () => {
+    const { cart } = install({ captureErrors: false, actionBreadcrumbs: false });
+    await expect(cart.checkout()).rejects.toThrow();
+
+    expect(captureException).not.toHaveBeenCalled();
+    expect(addBreadcrumb).not.toHaveBeenCalled();
+  });
+
+  it('should provide a snapshot of the current state of selected stores', async () => {
+    const { cart } = install({ stateStores: ['cart'] });
+    await cart.addItem('B2');
+
+    expect(providers.pinia!()).toEqual({
+      cart: { items: [{ sku: 'A1', quantity: 2 }, { sku: 'B2', quantity: 1 }], coupon: null }
+    });
+  });
+
+  it('should truncate store state larger than stateMaxSize', () => {
+    install({ stateStores: [/^cart$/], stateMaxSize: 10 });
+
+    expect(providers.pinia!()).toEqual({ cart: '[Truncated]' });
+  });
+
+  it('should register the snapshot once the reporter exists', async () => {
+    const existing = reporter;
+    reporter = null;
+    const { cart } = install({ stateStores: true });
+    expect(providers.pinia).toBeUndefined();
+
+    reporter = existing;
+    await cart.addItem('C3');
+
+    expect(Object.keys(providers.pinia!())).toEqual(['cart', 'session']);
+  });
+
+  it('should attach no state by default', async () => {
+    const { cart } = install();
+    await cart.addItem('B2');
+
+    expect(providers.pinia).toBeUndefined();
+  });
+
+  it('should redact sensitive values from the snapshot', () => {
+    install({ stateStores: ['session'] });
+
+    expect(providers.pinia!()).toEqual({ session: { token: '[REDACTED]' } });
+  });
+
+  it('should forget disposed stores', () => {
+    const { cart } = install({ stateStores: true });
+    cart.$dispose!();
+
+    expect(Object.keys(providers.pinia!())).toEqual(['session']);
+  });
+});
@@ -0,0 +1,129 @@
+import { instrumentRouterIntegration, isChunkLoadError } from '../../../src/plugin/router';
+import { BreadcrumbManager } from '../../../src/services/BreadcrumbManager';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+import { RouteLocationLike, RouterLike } from '../../../src/types';
+
+type AfterEachHook = (to: RouteLocationLike, from: RouteLocationLike, failure?: any) => any;
+type ErrorHandler = (error: any, to?: RouteLocationLike, from?: RouteLocationLike) => any;
+
+const route = (path: string, extra: Partial<RouteLocationLike> = {}): RouteLocationLike => ({
+  path,
+  fullPath: path,
+  matched: [{ path }],
+  ...extra
+});
+
+const START: RouteLocationLike = { path: '/', fullPath: '/', matched: [] };
+
+describe('instrumentRouterIntegration', () => {
+  let router: RouterLike;
+  let afterEachHooks: AfterEachHook[];
+  let errorHandlers: ErrorHandler[];
+  let breadcrumbManager: BreadcrumbManager;
+  let context: Record<string, any>;
+  let captureException: jest.Mock;
+  let reporter: ErrorReporter;
+  let remove: () => void;
+
+  beforeEach(() => {
+    afterEachHooks = [];
+    errorHandlers = [];
+    router = {
+      beforeEach: jest.fn(() => () => {}),
+      afterEach: jest.fn((hook: AfterEachHook) => {
+        afterEachHooks.push(hook);
+        return () => afterEachHooks.splice(afterEachHooks.indexOf(hook), 1);
+      }),
+      onError: jest.fn((handler: ErrorHandler) => {
+        errorHandlers.push(handler);
+        return () => errorHandlers.splice(errorHandlers.indexOf(handler), 1);
+      })
+    };
+
+    breadcrumbManager = new BreadcrumbManager();
+    context = {};
+    captureException = jest.fn().mockResolvedValue(undefined);
+    reporter = {
+      addBreadcrumb: (message: string, category: string, level: any, data: any) =>
+        breadcrumbManager.addBreadcrumb({ message, category, level, data }),
+      getBreadcrumbManager: () => breadcrumbManager,
+      setContext: (key: string, value: any) => { context[key] = value; },
+      isTracingEnabled: () => false,
+      captureException
+    } as unknown as ErrorReporter;
+
+    remove = instrumentRouterIntegration(router, () => reporter);
+  });
+
+  afterEach(() => {
+    remove();
+  });
+
+  const navigate = (to: RouteLocationLike, from: RouteLocationLike, failure?: any) => {
+    afterEachHooks.forEach(hook => hook(to, from, failure));
+  };
+
+  it('should record navigations and the current route', () => {
+    navigate(route('/users/42', { name: 'user', params: { id: '42' }, matched: [{ path: '/users/:id' }] }), START);
+
+    expect(breadcrumbManager.getBreadcrumbs()[0]).toMatchObject({
+      category: 'navigation',
+      data: { from: 'initial', to: '/users/42' }
+    });
+    expect(context.route).toEqual({ name: 'user', path: '/users/42', matched: '/users/:id', params: { id: '42' } });
+  });
+
+  it('should record redirects', () => {
+    navigate(route('/login', { redirectedFrom: route('/account') }), route('/'));
+
+    expect(breadcrumbManager.getBreadcrumbs()[0]!.data).toEqual({
+      from: '/',
+      to: '/login',
+      redirected_from: '/account'
+    });
+  });
+
+  it('should record navigation failures without changing the route context', () => {
+    navigate(route('/home'), START);
+    navigate(route('/admin'), route('/home'), { type: 4 });
+    navigate(route('/home'), route('/home'), { type: 16 });
+
+    const [, aborted, duplicated] = breadcrumbManager.getBreadcrumbs();
+    expect(aborted).toMatchObject({ message: 'Navigation aborted: /home → /admin', level: 'warning' });
+    expect(duplicated).toMatchObject({ level: 'info', data: { failure_type: 'duplicated' } });
+    expect(context.route.path).toBe('/home');
+  });
+
+  it('should capture router errors and flag chunk load errors', () => {
+    errorHandlers.forEach(handler => handler(new TypeError('Failed to fetch dynamically imported module: /assets/Admin.js'), route('/admin')));
+    errorHandlers.forEach(handler => handler(new Error('Guard failed')));
+
+    expect(captureException.mock.calls[0]![1]).toEqual({ type: 'chunkLoadError', navigation: { to: '/admin' } });
+    expect(captureException.mock.calls[1]![1]).toEqual({ type: 'routerError', navigation: undefined });
+  });
+
+  it('should only instrument a router once', () => {
+    instrumentRouterIntegration(router, () => reporter);
+
+    expect(router.afterEach).toHaveBeenCalledTimes(2); // Router integration and navigation tracing
+  });
+
+  it('should remove its hooks', () => {
+    remove();
+    navigate(route('/home'), START);
+
+    expect(breadcrumbManager.getBreadcrumbs()).toHaveLength(0);
+  });
+});
+
+describe('isChunkLoadError', () => {
+  it('should detect webpack and Vite chunk errors', () => {
+    const webpackError = new Error('Loading chunk 42 failed.');
+    webpackError.name = 'ChunkLoadError';
+
+    expect(isChunkLoadError(webpackError)).toBe(true);
+    expect(isChunkLoadError(new Error('Loading CSS chunk admin failed'))).toBe(true);
+    expect(isChunkLoadError(new TypeError('Importing a module script failed.'))).toBe(true);
+    expect(isChunkLoadError(new Error('Cannot read properties of undefined'))).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+import { createRequestAPI, createRequestScope, createServerReporter } from '../../../src/plugin/server';
+import { RateLimiter } from '../../../src/services/RateLimiter';
+import { Transport, TransportRequest } from '../../../src/types';
+
+describe('createServerReporter', () => {
+  let requests: TransportRequest[];
+  let transport: Transport;
+
+  const config = {
+    webhookUrl: 'https://errors.example.com/webhook/abc',
+    projectName: 'shop',
+    environment: 'staging'
+  };
+
+  beforeEach(() => {
+    requests = [];
+    transport = {
+      send: jest.fn(async (request: TransportRequest) => {
+        requests.push(request);
+        return { ok: true, status: 200 };
+      })
+    };
+  });
+
+  it('should run without DOM globals', async () => {
+    expect(typeof window).toBe('undefined');
+
+    const reporter = createServerReporter({ ...config, transport });
+    await reporter.captureException(new Error('Render failed'));
+
+    expect(requests).toHaveLength(1);
+    const payload = JSON.parse(requests[0]!.body as string);
+    expect(payload).toMatchObject({ message: 'Render failed', project: 'shop' });
+    expect(payload.context.runtime).toEqual({ ssr: true });
+    reporter.destroy();
+  });
+
+  it('should attach the request with a scrubbed URL', async () => {
+    const reporter = createServerReporter({ ...config, transport });
+    const scope = createRequestScope(reporter, {
+      url: '/products/42?token=secret&page=2',
+      method: 'GET',
+      headers: { 'user-agent': 'Mozilla/5.0' }
+    });
+    await scope.captureException(new Error('Not found'));
+
+    const payload = JSON.parse(requests[0]!.body as string);
+    expect(payload.context.request.method).toBe('GET');
+    expect(payload.context.request.user_agent).toBe('Mozilla/5.0');
+    expect(payload.context.request.url).toBe('/products/42?token=[REDACTED]&page=2');
+    expect(payload.context.runtime).toEqual({ ssr: true });
+    reporter.destroy();
+  });
+
+  it('should keep the context of concurrent requests apart', async () => {
+    const reporter = createServerReporter({ ...config, transport });
+    const first = createRequestAPI(reporter, createRequestScope(reporter, { url: '/a', method: 'GET' }));
+    const second = createRequestAPI(reporter, createRequestScope(reporter, { url: '/b', method: 'POST' }));
+    first.setUser({ id: 1 });
+    second.addBreadcrumb('Loaded cart', 'custom');
+
+    await Promise.all([
+      first.captureException(new Error('First')),
+      second.captureException(new Error('Second'))
+    ]);
+    await reporter.captureException(new Error('Outside'));
+
+    const [firstPayload, secondPayload, outsidePayload] = requests.map(request => JSON.parse(request.body as string));
+    expect(firstPayload.user).toEqual({ id: 1 });
+    expect(firstPayload.breadcrumbs).toEqual([]);
+    expect(secondPayload.user).toBeUndefined();
+    expect(secondPayload.context.request.method).toBe('POST');
+    expect(secondPayload.breadcrumbs.map((crumb: any) => crumb.message)).toEqual(['Loaded cart']);
+    expect(outsidePayload.user).toBeUndefined();
+    expect(outsidePayload.context.request).toBeUndefined();
+    expect(outsidePayload.breadcrumbs).toEqual([]);
+    reporter.destroy();
+  });
+
+  it('should apply the rate limits across requests', async () => {
+    const reporter = createServerReporter({ ...config, transport, maxRequestsPerMinute: 2 });
+    const pages = ['/a', '/b', '/c'].map(url => createRequestScope(reporter, { url, method: 'GET' }));
+
+    for (const [index, scope] of pages.entries()) {
+      await scope.captureException(new Error(`Render failed ${index}`));
+    }
+
+    expect(requests).toHaveLength(2);
+    reporter.destroy();
+  });
+
+  it('should forget the sent errors of a long-lived reporter', () => {
+    jest.useFakeTimers();
+    const rateLimiter = new RateLimiter({ maxRequests: 10, windowMs: 60000, duplicateErrorWindow: 5000 });
+
+    try {
+      rateLimiter.markErrorSent({ message: 'Render failed', fingerprint: 'render' } as any);
+      jest.advanceTimersByTime(60000);
+
+      expect(rateLimiter.getStats()).toEqual({ requestCount: 0, errorHashCount: 0 });
+    } finally {
+      rateLimiter.destroy();
+      jest.useRealTimers();
+    }
+  });
+
+  it('should keep a scope opened inside a request call', () => {
+    const reporter = createServerReporter({ ...config, transport });
+    const api = createRequestAPI(reporter, createRequestScope(reporter, { url: '/a', method: 'GET' }));
+
+    const tags = api.withScope((scope) => {
+      api.setTag('step', 'payment');
+      return scope.getTags();
+    });
+
+    expect(tags).toEqual({ step: 'payment' });
+    reporter.destroy();
+  });
+
+  it('should disable browser-only and stateful features', () => {
+    const reporter = createServerReporter({ ...config, transport, enableBatching: true, enableOfflineSupport: true });
+
+    expect(reporter.getConfig()).toMatchObject({
+      enableBatching: false,
+      enableOfflineSupport: false,
+      enableReplay: false,
+      captureUnhandledRejections: false
+    });
+    reporter.destroy();
+  });
+});
@@ -0,0 +1,47 @@
+import { createApp, defineComponent, h } from 'vue';
+import { createComponentTracingMixin } from '../../../src/plugin/tracing';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+import { Tracer, Transaction } from '../../../src/services/Tracer';
+
+describe('createComponentTracingMixin', () => {
+  let tracer: Tracer;
+  let sent: Transaction[];
+  let reporter: ErrorReporter;
+
+  const mount = () => {
+    const Cart = defineComponent({ name: 'Cart', setup: () => () => h('div') });
+    const app = createApp(Cart);
+    app.mixin(createComponentTracingMixin(() => reporter));
+    app.mount(document.createElement('div'));
+    return app;
+  };
+
+  beforeEach(() => {
+    tracer = new Tracer({ tracesSampleRate: 1 });
+    sent = [];
+    tracer.setSendFunction((transaction) => sent.push(transaction));
+    reporter = {
+      isTracingEnabled: () => tracer.isEnabled(),
+      getActiveTransaction: () => tracer.getActiveTransaction(),
+      startTransaction: jest.fn((options) => tracer.startTransaction(options))
+    } as unknown as ErrorReporter;
+  });
+
+  it('should record mounts as spans of the active transaction', () => {
+    const navigation = tracer.startTransaction({ name: '/cart', op: 'navigation' });
+    mount().unmount();
+    navigation.finish();
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]!.toPayload().spans).toEqual([
+      expect.objectContaining({ op: 'ui.vue.mount', description: 'Cart' })
+    ]);
+  });
+
+  it('should not start a transaction of its own', () => {
+    mount().unmount();
+
+    expect(reporter.startTransaction).not.toHaveBeenCalled();
+    expect(sent).toHaveLength(0);
+  });
+});
@@ -0,0 +1,131 @@
+import { instrumentVuexStore } from '../../../src/plugin/vuex';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+import { VuexActionLike, VuexIntegrationOptions, VuexMutationLike, VuexStoreLike } from '../../../src/types';
+
+type ActionSubscriber = Parameters<VuexStoreLike['subscribeAction']>[0];
+
+// Mimics how Vuex 4 notifies its subscribers on commit and dispatch
+function createStore(state: Record<string, any>) {
+  const mutationSubscribers: Array<(mutation: VuexMutationLike, state: any) => void> = [];
+  const actionSubscribers: ActionSubscriber[] = [];
+
+  const store = {
+    state,
+    subscribe(handler: (mutation: VuexMutationLike, state: any) => void) {
+      mutationSubscribers.push(handler);
+      return () => mutationSubscribers.splice(mutationSubscribers.indexOf(handler), 1);
+    },
+    subscribeAction(handler: ActionSubscriber) {
+      actionSubscribers.push(handler);
+      return () => actionSubscribers.splice(actionSubscribers.indexOf(handler), 1);
+    },
+    commit(type: string, payload?: any) {
+      mutationSubscribers.forEach(handler => handler({ type, payload }, state));
+    },
+    async dispatch(type: string, payload: any, handler: () => Promise<any>) {
+      const action: VuexActionLike = { type, payload };
+      actionSubscribers.forEach(subscriber => subscriber.before?.(action, state));
+      try {
+        const result = await handler();
+        actionSubscribers.forEach(subscriber => subscriber.after?.(action, state));
+        return result;
+      } catch (error) {
+        actionSubscribers.forEach(subscriber => subscriber.error?.(action, state, error));
+        throw error;
+      }
+    }
+  };
+
+  return store;
+}
+
+describe('instrumentVuexStore', () => {
+  let addBreadcrumb: jest.Mock;
+  let captureException: jest.Mock;
+  let providers: Record<string, () => any>;
+  let reporter: ErrorReporter | null;
+  let store: ReturnType<typeof createStore>;
+
+  const instrument = (options?: VuexIntegrationOptions) => instrumentVuexStore(store, () => reporter, options);
+
+  beforeEach(() => {
+    addBreadcrumb = jest.fn();
+    captureException = jest.fn().mockResolvedValue(undefined);
+    providers = {};
+    reporter = {
+      addBreadcrumb,
+      captureException,
+      addContextProvider: jest.fn((key: string, provider: () => any) => {
+        providers[key] = provider;
+        return () => { delete providers[key]; };
+      })
+    } as unknown as ErrorReporter;
+    store = createStore({ cart: { items: ['A1'] }, user: { name: 'Jane' }, ui: { open: true } });
+  });
+
+  it('should record mutations with their payload', () => {
+    instrument();
+    store.commit('cart/addItem', { sku: 'B2', onDone: () => {} });
+
+    expect(addBreadcrumb).toHaveBeenCalledWith('Vuex mutation cart/addItem', 'vuex.mutation', 'info', {
+      type: 'cart/addItem',
+      payload: { sku: 'B2', onDone: '[Function: onDone]' }
+    });
+  });
+
+  it('should truncate large payloads', () => {
+    instrument({ payloadMaxSize: 20 });
+    store.commit('cart/load', Array.from({ length: 50 }, (_, index) => `item-${index}`));
+
+    expect(addBreadcrumb.mock.calls[0][3].payload).toBe('[Truncated]');
+  });
+
+  it('should record actions and capture their errors', async () => {
+    instrument();
+    await store.dispatch('cart/save', { id: 1 }, async () => 'saved');
+    await expect(store.dispatch('cart/checkout', undefined, async () => {
+      throw new Error('Payment declined');
+    })).rejects.toThrow('Payment declined');
+
+    expect(addBreadcrumb).toHaveBeenCalledWith('Vuex action cart/save', 'vuex.action', 'info', {
+      type: 'cart/save',
+      status: 'success',
+      duration: expect.any(Number),
+      payload: { id: 1 }
+    });
+    expect(addBreadcrumb).toHaveBeenCalledWith('Vuex action cart/checkout failed', 'vuex.action', 'error', {
+      type: 'cart/checkout',
+      status: 'error',
+      duration: expect.any(Number)
+    });
+    expect(captureException).toHaveBeenCalledWith(expect.objectContaining({ message: 'Payment declined' }), {
+      type: 'vuexActionError',
+      vuex_action: { type: 'cart/checkout' }
+    });
+  });
+
+  it('should not attach state unless enabled', () => {
+    instrument();
+    store.commit('ui/toggle');
+
+    expect(providers.vuex).toBeUndefined();
+  });
+
+  it('should attach the selected state modules', () => {
+    instrument({ attachState: ['cart', /^ui$/] });
+    store.commit('ui/toggle');
+    store.state.cart.items.push('B2');
+
+    expect(providers.vuex!()).toEqual({ cart: { items: ['A1', 'B2'] }, ui: { open: true } });
+  });
+
+  it('should remove subscriptions and the state provider', () => {
+    const remove = instrument({ attachState: true });
+    store.commit('ui/toggle');
+    remove();
+    store.commit('ui/toggle');
+
+    expect(addBreadcrumb).toHaveBeenCalledTimes(1);
+    expect(providers.vuex).toBeUndefined();
+  });
+});
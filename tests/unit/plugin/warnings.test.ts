@@ -0,0 +1,60 @@
+import { createWarnHandler } from '../../../src/plugin/warnings';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+
+describe('createWarnHandler', () => {
+  let addBreadcrumb: jest.Mock;
+  let captureMessage: jest.Mock;
+  let reporter: ErrorReporter;
+  const instance = { $: { type: { name: 'UserCard' }, parent: {} } } as any;
+  const trace = '\n  at <UserCard user=undefined >\n  at <App>';
+
+  beforeEach(() => {
+    addBreadcrumb = jest.fn();
+    captureMessage = jest.fn().mockResolvedValue(undefined);
+    reporter = { addBreadcrumb, captureMessage } as unknown as ErrorReporter;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should record warnings as breadcrumbs', () => {
+    const handler = createWarnHandler(() => reporter, false);
+    handler('Missing required prop: "user"', instance, trace);
+
+    expect(addBreadcrumb).toHaveBeenCalledWith(
+      'Vue warning: Missing required prop: "user"',
+      'vue.warning',
+      'warning',
+      { componentName: 'UserCard', componentTrace: 'at <UserCard user=undefined >\n  at <App>' }
+    );
+    expect(captureMessage).not.toHaveBeenCalled();
+  });
+
+  it('should report warnings as events when enabled', () => {
+    const handler = createWarnHandler(() => reporter, true);
+    handler('injection "theme" not found.', instance, trace);
+
+    expect(captureMessage).toHaveBeenCalledWith('[Vue warn]: injection "theme" not found.', 'warning', {
+      type: 'vueWarning',
+      vue: expect.objectContaining({ componentName: 'UserCard' })
+    });
+  });
+
+  it('should chain to the previous warn handler', () => {
+    const original = jest.fn();
+    const handler = createWarnHandler(() => reporter, false, original);
+    handler('Invalid prop', instance, trace);
+
+    expect(original).toHaveBeenCalledWith('Invalid prop', instance, trace);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it('should keep logging to the console without a previous handler', () => {
+    const handler = createWarnHandler(() => null, false);
+    handler('Invalid prop', null, '');
+
+    expect(console.warn).toHaveBeenCalledWith('[Vue warn]: Invalid prop');
+  });
+});
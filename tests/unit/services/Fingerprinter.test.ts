@@ -0,0 +1,163 @@
+import { Fingerprinter, hashString } from '../../../src/services/Fingerprinter';
+import { ErrorData } from '../../../src/types';
+
+describe('Fingerprinter', () => {
+  let fingerprinter: Fingerprinter;
+  let errorData: ErrorData;
+
+  beforeEach(() => {
+    fingerprinter = new Fingerprinter();
+    errorData = {
+      message: 'Cannot read properties of undefined',
+      exception_class: 'TypeError',
+      stack_trace: 'TypeError: Cannot read properties of undefined\n    at setup (http://localhost/src/App.vue:10:5)',
+      file: 'http://localhost/src/App.vue',
+      line: 10,
+      project: 'test-project',
+      environment: 'test',
+      timestamp: new Date().toISOString(),
+      request: { url: 'http://localhost/checkout?step=2' },
+      context: { vue: { componentName: 'CheckoutForm' } }
+    };
+  });
+
+  describe('default fingerprint', () => {
+    it('should be stable for the same error', () => {
+      expect(fingerprinter.compute(errorData)).toBe(fingerprinter.compute({ ...errorData }));
+    });
+
+    it('should ignore line and column changes', () => {
+      const moved = {
+        ...errorData,
+        stack_trace: 'TypeError: Cannot read properties of undefined\n    at setup (http://localhost/src/App.vue:42:1)'
+      };
+
+      expect(fingerprinter.compute(moved)).toBe(fingerprinter.compute(errorData));
+    });
+
+    it('should ignore the host and query string of frames', () => {
+      const deployed = {
+        ...errorData,
+        stack_trace: 'TypeError: Cannot read properties of undefined\n    at setup (https://cdn.example.com/src/App.vue?v=2:10:5)'
+      };
+
+      expect(fingerprinter.compute(deployed)).toBe(fingerprinter.compute(errorData));
+    });
+
+    it('should differ for different functions', () => {
+      const other = {
+        ...errorData,
+        stack_trace: 'TypeError: Cannot read properties of undefined\n    at render (http://localhost/src/App.vue:10:5)'
+      };
+
+      expect(fingerprinter.compute(other)).not.toBe(fingerprinter.compute(errorData));
+    });
+
+    it('should replace volatile identifiers in messages', () => {
+      const first = { ...errorData, message: 'Order 3f2b8c1e-5a4d-4e9b-8f00-1c2d3e4f5a6b not found' };
+      const second = { ...errorData, message: 'Order 9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d not found' };
+
+      expect(fingerprinter.compute(first)).toBe(fingerprinter.compute(second));
+    });
+
+    it('should differ by level', () => {
+      const warning = { ...errorData, context: { ...errorData.context, level: 'warning' } };
+
+      expect(fingerprinter.compute(warning)).not.toBe(fingerprinter.compute(errorData));
+    });
+
+    it('should tell wrapped errors apart by their root cause', () => {
+      const linkedException = (message: string) => ({
+        exception_id: 1,
+        parent_id: 0,
+        relation: 'cause' as const,
+        exception_class: 'TypeError',
+        message,
+        stack_trace: '',
+        stack_frames: []
+      });
+      const fetchFailed = { ...errorData, linked_exceptions: [linkedException('Failed to fetch')] };
+      const quotaExceeded = { ...errorData, linked_exceptions: [linkedException('Quota exceeded')] };
+
+      expect(fingerprinter.compute(fetchFailed)).not.toBe(fingerprinter.compute(quotaExceeded));
+      expect(fingerprinter.compute(fetchFailed)).toBe(fingerprinter.compute({ ...fetchFailed }));
+    });
+  });
+
+  describe('rules', () => {
+    it('should group by the first matching rule', () => {
+      fingerprinter = new Fingerprinter({
+        rules: [
+          { exceptionClass: 'ChunkLoadError', fingerprint: ['chunk-load'] },
+          { message: /properties of undefined/, componentName: 'CheckoutForm', fingerprint: ['checkout', '{{ route }}'] }
+        ]
+      });
+
+      const elsewhere = { ...errorData, stack_trace: 'different stack' };
+
+      expect(fingerprinter.compute(elsewhere)).toBe(fingerprinter.compute(errorData));
+      expect(fingerprinter.compute(errorData)).toBe(hashString('checkout|/checkout'));
+    });
+
+    it('should require all conditions of a rule to match', () => {
+      fingerprinter = new Fingerprinter({
+        rules: [{ exceptionClass: 'TypeError', route: '/cart', fingerprint: ['cart'] }]
+      });
+
+      expect(fingerprinter.compute(errorData)).not.toBe(hashString('cart'));
+    });
+
+    it('should insert messages with replacement patterns as they are', () => {
+      fingerprinter = new Fingerprinter({
+        rules: [{ exceptionClass: 'TypeError', fingerprint: ['price', '{{ message }}'] }]
+      });
+
+      for (const message of ['Invalid price $&', 'Invalid price $1', 'Invalid price $$']) {
+        expect(fingerprinter.compute({ ...errorData, message })).toBe(hashString(`price|${message}`));
+      }
+    });
+
+    it('should expand the default token', () => {
+      const defaultFingerprint = fingerprinter.compute(errorData);
+      fingerprinter = new Fingerprinter({
+        rules: [{ route: /^\/checkout/, fingerprint: ['{{ default }}', 'checkout'] }]
+      });
+
+      const fingerprint = fingerprinter.compute(errorData);
+
+      expect(fingerprint).not.toBe(defaultFingerprint);
+      expect(fingerprint).toMatch(/^[0-9a-f]{16}$/);
+    });
+  });
+
+  describe('context fingerprint', () => {
+    it('should take precedence over rules', () => {
+      fingerprinter = new Fingerprinter({
+        rules: [{ exceptionClass: 'TypeError', fingerprint: ['rule'] }]
+      });
+      const requested = { ...errorData, context: { ...errorData.context, fingerprint: ['requested', '{{ route }}'] } };
+
+      expect(fingerprinter.compute(requested)).toBe(hashString('requested|/checkout'));
+    });
+  });
+
+  describe('callback', () => {
+    it('should take precedence over rules', () => {
+      fingerprinter = new Fingerprinter({
+        rules: [{ exceptionClass: 'TypeError', fingerprint: ['rule'] }],
+        callback: () => ['callback']
+      });
+
+      expect(fingerprinter.compute(errorData)).toBe(hashString('callback'));
+    });
+
+    it('should fall back when returning nothing', () => {
+      const callback = jest.fn().mockReturnValue(undefined);
+      const defaultFingerprint = fingerprinter.compute(errorData);
+      fingerprinter = new Fingerprinter({ callback });
+
+      expect(fingerprinter.compute(errorData)).toBe(defaultFingerprint);
+      expect(callback).toHaveBeenCalledWith(errorData, defaultFingerprint);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { GlobalHandlerSubscriber, subscribeGlobalHandlers } from '../../../src/services/GlobalHandlers';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+import { Transport } from '../../../src/types';
+
+describe('subscribeGlobalHandlers', () => {
+  let unsubscribers: Array<() => void>;
+
+  const subscribe = (subscriber: GlobalHandlerSubscriber) => {
+    const unsubscribe = subscribeGlobalHandlers(subscriber);
+    unsubscribers.push(unsubscribe);
+    return unsubscribe;
+  };
+
+  const throwUncaught = (message: string) => {
+    window.dispatchEvent(new ErrorEvent('error', { error: new Error(message), message }));
+  };
+
+  beforeEach(() => {
+    unsubscribers = [];
+  });
+
+  afterEach(() => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+  });
+
+  it('should hand an uncaught error to the first subscriber only', () => {
+    const first = { onError: jest.fn() };
+    const second = { onError: jest.fn() };
+    const unsubscribeFirst = subscribe(first);
+    subscribe(second);
+
+    throwUncaught('Boom');
+    unsubscribeFirst();
+    throwUncaught('Again');
+
+    expect(first.onError).toHaveBeenCalledTimes(1);
+    expect(second.onError).toHaveBeenCalledTimes(1);
+    expect(second.onError.mock.calls[0][0].error.message).toBe('Again');
+  });
+
+  it('should skip subscribers that do not handle rejections', () => {
+    const first = { onError: jest.fn() };
+    const second = { onError: jest.fn(), onUnhandledRejection: jest.fn() };
+    subscribe(first);
+    subscribe(second);
+
+    window.dispatchEvent(Object.assign(new Event('unhandledrejection'), { reason: new Error('Rejected') }));
+
+    expect(second.onUnhandledRejection).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give console output to every subscriber and restore the console', () => {
+    const originalWarn = console.warn;
+    console.warn = jest.fn();
+    try {
+      const first = { onConsole: jest.fn() };
+      const second = { onConsole: jest.fn() };
+      const unsubscribeFirst = subscribe(first);
+      const unsubscribeSecond = subscribe(second);
+
+      console.warn('Deprecated prop');
+      unsubscribeFirst();
+      unsubscribeSecond();
+
+      expect(first.onConsole).toHaveBeenCalledWith('warning', ['Deprecated prop']);
+      expect(second.onConsole).toHaveBeenCalledWith('warning', ['Deprecated prop']);
+      expect(jest.isMockFunction(console.warn)).toBe(true);
+    } finally {
+      console.warn = originalWarn;
+    }
+  });
+
+  it('should leave the console alone without console subscribers', () => {
+    const error = console.error;
+    subscribe({ onError: jest.fn() });
+
+    expect(console.error).toBe(error);
+  });
+
+  it('should report an uncaught error once with several reporters', async () => {
+    const send = jest.fn().mockResolvedValue({ status: 200, headers: {} });
+    const createReporter = (projectName: string) => new ErrorReporter({
+      webhookUrl: `https://example.com/webhook/${projectName}`,
+      projectName,
+      environment: 'staging',
+      enableBatching: false,
+      enableOfflineSupport: false,
+      transport: { send } as Transport
+    });
+    const host = createReporter('shop');
+    const widget = createReporter('chat-widget');
+
+    try {
+      throwUncaught('Cart exploded');
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send.mock.calls[0][0].url).toBe('https://example.com/webhook/shop');
+    } finally {
+      host.destroy();
+      widget.destroy();
+    }
+  });
+});
@@ -0,0 +1,189 @@
+import { HttpInstrumentation, claimRequest, scrubUrl } from '../../../src/services/HttpInstrumentation';
+import { SecurityValidator } from '../../../src/services/SecurityValidator';
+import { HttpRequestInfo } from '../../../src/types';
+
+class FakeXMLHttpRequest extends EventTarget {
+  status = 0;
+
+  open(_method: string, _url: string): void {}
+
+  send(): void {}
+
+  respond(status: number): void {
+    this.status = status;
+    this.dispatchEvent(new Event('load'));
+    this.dispatchEvent(new Event('loadend'));
+  }
+
+  fail(): void {
+    this.dispatchEvent(new Event('error'));
+    this.dispatchEvent(new Event('loadend'));
+  }
+}
+
+describe('HttpInstrumentation', () => {
+  const masker = new SecurityValidator();
+  const originalXHR = (global as any).XMLHttpRequest;
+  let instrumentation: HttpInstrumentation;
+  let requests: HttpRequestInfo[];
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn().mockResolvedValue({ status: 200 });
+    window.fetch = fetchMock;
+    (global as any).XMLHttpRequest = FakeXMLHttpRequest;
+
+    requests = [];
+    instrumentation = new HttpInstrumentation({
+      ignoreUrls: ['https://error-explorer.com/webhook/']
+    }, masker);
+    instrumentation.setHandler((request) => requests.push(request));
+    instrumentation.instrument();
+  });
+
+  afterEach(() => {
+    instrumentation.destroy();
+    (global as any).XMLHttpRequest = originalXHR;
+  });
+
+  describe('scrubUrl', () => {
+    it('should redact sensitive query parameters', () => {
+      expect(scrubUrl('https://api.example.com/users?page=2&api_key=abc123#top', masker))
+        .toBe('https://api.example.com/users?page=2&api_key=[REDACTED]');
+    });
+
+    it('should apply the sensitive data patterns to other values', () => {
+      expect(scrubUrl('/search?q=john@example.com', masker))
+        .toBe('http://localhost:3000/search?q=[REDACTED]');
+    });
+  });
+
+  describe('fetch', () => {
+    it('should record method, status and duration', async () => {
+      await window.fetch('https://api.example.com/orders', { method: 'post' });
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).toMatchObject({
+        method: 'POST',
+        url: 'https://api.example.com/orders',
+        status_code: 200
+      });
+      expect(requests[0]!.duration).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should record network failures and rethrow them', async () => {
+      fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      await expect(window.fetch('https://api.example.com/orders')).rejects.toThrow('Failed to fetch');
+
+      expect(requests[0]).toMatchObject({ method: 'GET', error: 'Failed to fetch' });
+      expect(requests[0]!.status_code).toBeUndefined();
+    });
+
+    it('should skip ignored URLs', async () => {
+      await window.fetch('https://error-explorer.com/webhook/project-token', { method: 'POST' });
+
+      expect(fetchMock).toHaveBeenCalled();
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should restore the original fetch on destroy', () => {
+      instrumentation.destroy();
+
+      expect(window.fetch).toBe(fetchMock);
+    });
+  });
+
+  describe('XMLHttpRequest', () => {
+    it('should record the response status', () => {
+      const xhr = new XMLHttpRequest() as unknown as FakeXMLHttpRequest;
+      xhr.open('GET', 'https://api.example.com/cart?token=secret');
+      xhr.send();
+      xhr.respond(503);
+
+      expect(requests[0]).toMatchObject({
+        method: 'GET',
+        url: 'https://api.example.com/cart?token=[REDACTED]',
+        status_code: 503
+      });
+    });
+
+    it('should record network errors without a status', () => {
+      const xhr = new XMLHttpRequest() as unknown as FakeXMLHttpRequest;
+      xhr.open('PUT', 'https://api.example.com/cart');
+      xhr.send();
+      xhr.fail();
+
+      expect(requests[0]).toMatchObject({ method: 'PUT', error: 'Network error' });
+      expect(requests[0]!.status_code).toBeUndefined();
+    });
+  });
+
+  describe('several reporters', () => {
+    let other: HttpInstrumentation;
+    let otherRequests: HttpRequestInfo[];
+
+    beforeEach(() => {
+      otherRequests = [];
+      other = new HttpInstrumentation({ ignoreUrls: [/\/health$/] }, masker);
+      other.setHandler((request) => otherRequests.push(request));
+      other.instrument();
+    });
+
+    afterEach(() => {
+      other.destroy();
+    });
+
+    it('should share one patch and apply each reporter\'s ignore rules', async () => {
+      await window.fetch('https://api.example.com/orders');
+      await window.fetch('https://api.example.com/health');
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(requests.map(request => request.url)).toEqual(['https://api.example.com/orders', 'https://api.example.com/health']);
+      expect(otherRequests.map(request => request.url)).toEqual(['https://api.example.com/orders']);
+    });
+
+    it('should keep recording for the others when one is destroyed', () => {
+      instrumentation.destroy();
+
+      const xhr = new XMLHttpRequest() as unknown as FakeXMLHttpRequest;
+      xhr.open('GET', 'https://api.example.com/cart');
+      xhr.send();
+      xhr.respond(200);
+
+      expect(requests).toHaveLength(0);
+      expect(otherRequests).toHaveLength(1);
+
+      other.destroy();
+      expect(window.fetch).toBe(fetchMock);
+      expect(XMLHttpRequest.prototype.open).toBe(FakeXMLHttpRequest.prototype.open);
+    });
+
+    it('should leave a patch installed after it in place', () => {
+      const wrapper = jest.fn();
+      window.fetch = wrapper;
+
+      instrumentation.destroy();
+      other.destroy();
+
+      expect(window.fetch).toBe(wrapper);
+    });
+  });
+
+  it('should skip requests claimed by another integration', async () => {
+    const release = claimRequest('get', 'https://api.example.com/orders');
+    await window.fetch('https://api.example.com/orders');
+    await window.fetch('https://api.example.com/orders');
+    release();
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should match failed status codes and ranges', () => {
+    instrumentation.updateConfig({ failedStatusCodes: [429, [500, 599]] });
+
+    expect(instrumentation.isFailedStatus(429)).toBe(true);
+    expect(instrumentation.isFailedStatus(502)).toBe(true);
+    expect(instrumentation.isFailedStatus(404)).toBe(false);
+  });
+});
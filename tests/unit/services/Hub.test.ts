@@ -0,0 +1,133 @@
+import { createApp, defineComponent, h, inject, onMounted } from 'vue';
+import { ERROR_REPORTER_KEY, Hub } from '../../../src/services/Hub';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+import { ErrorExplorerPlugin, getErrorExplorer } from '../../../src/plugin';
+
+describe('Hub', () => {
+  let hub: Hub;
+  const first = { name: 'first' } as unknown as ErrorReporter;
+  const second = { name: 'second' } as unknown as ErrorReporter;
+
+  beforeEach(() => {
+    hub = new Hub();
+  });
+
+  it('should keep the first reporter as the default', () => {
+    hub.bindApp(createApp({}), first);
+    hub.bindApp(createApp({}), second);
+
+    expect(hub.getCurrent()).toBe(first);
+  });
+
+  it('should resolve the reporter of the running component\'s app', () => {
+    const seen: Record<string, unknown> = {};
+    const Probe = (label: string) => defineComponent({
+      setup() {
+        seen[`${label}:setup`] = hub.getCurrent();
+        seen[`${label}:inject`] = inject(ERROR_REPORTER_KEY);
+        onMounted(() => {
+          seen[`${label}:mounted`] = hub.getCurrent();
+        });
+        return () => h('div');
+      }
+    });
+
+    const host = createApp(Probe('host'));
+    const widget = createApp(Probe('widget'));
+    hub.bindApp(host, first);
+    hub.bindApp(widget, second);
+    host.mount(document.createElement('div'));
+    widget.mount(document.createElement('div'));
+
+    expect(seen).toEqual({
+      'host:setup': first,
+      'host:inject': first,
+      'host:mounted': first,
+      'widget:setup': second,
+      'widget:inject': second,
+      'widget:mounted': second
+    });
+    expect(hub.getCurrent()).toBe(first);
+    expect(hub.getAppReporter(widget)).toBe(second);
+  });
+
+  it('should release the default when its app is unbound', () => {
+    const app = createApp({});
+    hub.bindApp(app, first);
+    hub.unbindApp(app);
+
+    expect(hub.getCurrent()).toBeNull();
+    expect(hub.getAppReporter(app)).toBeNull();
+
+    hub.bindApp(createApp({}), second);
+    expect(hub.getCurrent()).toBe(second);
+  });
+
+  it('should let an explicit default take over', () => {
+    hub.bindApp(createApp({}), first);
+    hub.setDefault(second);
+
+    expect(hub.getCurrent()).toBe(second);
+  });
+
+  it('should unbind and destroy the reporter of an unmounted app', () => {
+    const app = createApp({ render: () => h('div') });
+    app.use(ErrorExplorerPlugin, {
+      webhookUrl: 'https://example.com/webhook',
+      projectName: 'shop',
+      environment: 'staging'
+    });
+    app.mount(document.createElement('div'));
+    const reporter = getErrorExplorer(app)!;
+    const destroy = jest.spyOn(reporter, 'destroy');
+
+    app.unmount();
+
+    expect(destroy).toHaveBeenCalled();
+    expect(getErrorExplorer(app)).toBeNull();
+  });
+
+  it('should release the reporter on unmount before Vue 3.5', () => {
+    const app = createApp({ render: () => h('div') });
+    (app as any).onUnmount = undefined;
+    app.use(ErrorExplorerPlugin, {
+      webhookUrl: 'https://example.com/webhook',
+      projectName: 'shop',
+      environment: 'staging'
+    });
+    app.mount(document.createElement('div'));
+    const destroy = jest.spyOn(getErrorExplorer(app)!, 'destroy');
+
+    app.unmount();
+
+    expect(destroy).toHaveBeenCalled();
+    expect(getErrorExplorer(app)).toBeNull();
+  });
+
+  it('should keep the events queued offline after unmount', async () => {
+    const stored = new Map<string, string>();
+    (localStorage.getItem as jest.Mock).mockImplementation((key: string) => stored.get(key) ?? null);
+    (localStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => stored.set(key, value));
+    (navigator as any).onLine = false;
+
+    try {
+      const app = createApp({ render: () => h('div') });
+      app.use(ErrorExplorerPlugin, {
+        webhookUrl: 'https://example.com/webhook',
+        projectName: 'shop',
+        environment: 'staging',
+        enableBatching: false,
+        enableOfflineSupport: true
+      });
+      app.mount(document.createElement('div'));
+
+      await getErrorExplorer(app)!.captureException(new Error('Checkout failed'));
+      app.unmount();
+
+      const queue = JSON.parse(stored.get('error-explorer-offline-queue:shop')!);
+      expect(queue.map((item: any) => item.errorData.message)).toEqual(['Checkout failed']);
+    } finally {
+      (navigator as any).onLine = true;
+    }
+  });
+});
@@ -0,0 +1,120 @@
+import { InteractionTracker } from '../../../src/services/InteractionTracker';
+import { SecurityValidator } from '../../../src/services/SecurityValidator';
+
+describe('InteractionTracker', () => {
+  let tracker: InteractionTracker;
+  let interactions: Array<{ event: string; target: string; data?: Record<string, any> }>;
+
+  const createTracker = (config = {}) => {
+    const instance = new InteractionTracker({ throttle: 0, ...config }, new SecurityValidator());
+    instance.setHandler((event, target, data) => interactions.push({ event, target, data }));
+    instance.start();
+    return instance;
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <form id="login">
+        <input name="email" type="email" />
+        <button type="button" class="btn primary" data-testid="submit"><span class="icon"></span> Sign in</button>
+      </form>
+    `;
+    interactions = [];
+    tracker = createTracker();
+  });
+
+  afterEach(() => {
+    tracker.destroy();
+  });
+
+  it('should record clicks on the closest interactive element', () => {
+    document.querySelector<HTMLElement>('.icon')!.click();
+
+    expect(interactions).toEqual([{
+      event: 'click',
+      target: 'form#login > button.btn.primary[data-testid="submit"]',
+      data: { tag: 'button', text: 'Sign in' }
+    }]);
+  });
+
+  it('should record clicks even when propagation is stopped', () => {
+    const button = document.querySelector('button')!;
+    button.addEventListener('click', (event) => event.stopPropagation());
+    button.click();
+
+    expect(interactions).toHaveLength(1);
+  });
+
+  it('should record input changes without their value', () => {
+    const input = document.querySelector<HTMLInputElement>('input')!;
+    input.value = 'john@example.com';
+    input.dispatchEvent(new Event('change', { bubbles: true }));
+
+    expect(interactions).toEqual([{
+      event: 'input',
+      target: 'form#login > input[name="email"]',
+      data: { tag: 'input', input_type: 'email', name: 'email' }
+    }]);
+    expect(JSON.stringify(interactions)).not.toContain('john@example.com');
+  });
+
+  it('should record form submits', () => {
+    document.querySelector('form')!.dispatchEvent(new Event('submit', { bubbles: true }));
+
+    expect(interactions[0]).toMatchObject({ event: 'submit', target: 'form#login' });
+  });
+
+  it('should add the Vue component name', () => {
+    const button = document.querySelector('button') as HTMLButtonElement & { __vueParentComponent?: any };
+    button.__vueParentComponent = { type: { name: 'LoginForm' }, parent: {} };
+    button.click();
+
+    expect(interactions[0]!.target).toBe('form#login > button.btn.primary[data-testid="submit"] (LoginForm)');
+    expect(interactions[0]!.data!.component).toBe('LoginForm');
+  });
+
+  it('should sanitize and truncate button text', () => {
+    document.body.innerHTML = '<button>Signed in as john@example.com, manage your account settings</button>';
+    document.querySelector('button')!.click();
+
+    expect(interactions[0]!.data!.text).toBe('Signed in as [REDACTED], manage your account setti...');
+  });
+
+  it('should respect the mask and block markers', () => {
+    document.body.innerHTML = `
+      <div data-error-explorer-mask><button id="balance">Balance 1200 EUR</button></div>
+      <div data-error-explorer-block><button id="secret">Reveal</button></div>
+    `;
+    document.querySelector<HTMLElement>('#balance')!.click();
+    document.querySelector<HTMLElement>('#secret')!.click();
+
+    expect(interactions).toEqual([{
+      event: 'click',
+      target: 'button#balance',
+      data: { tag: 'button', text: '******* **** ***' }
+    }]);
+  });
+
+  it('should throttle interactions of the same type', () => {
+    tracker.destroy();
+    tracker = createTracker({ throttle: 1000 });
+
+    const button = document.querySelector('button')!;
+    button.click();
+    button.click();
+    document.querySelector('form')!.dispatchEvent(new Event('submit', { bubbles: true }));
+
+    expect(interactions.map(interaction => interaction.event)).toEqual(['click', 'submit']);
+  });
+
+  it('should only listen to enabled event types', () => {
+    tracker.destroy();
+    tracker = createTracker({ click: false });
+
+    document.querySelector('button')!.click();
+    tracker.updateConfig({ click: true });
+    document.querySelector('button')!.click();
+
+    expect(interactions).toHaveLength(1);
+  });
+});
@@ -258,4 +258,49 @@ describe('OfflineManager', () => {
       expect(removeEventListenerSpy).toHaveBeenCalledWith('online', expect.any(Function));
     });
   });
+});
+
+describe('OfflineManager legacy storage', () => {
+  let stored: Map<string, string>;
+
+  const item = (id: string, timestamp: number) => ({ id, errorData: { message: id }, timestamp, attempts: 0 });
+  const read = (key: string) => JSON.parse(stored.get(key)!);
+
+  beforeEach(() => {
+    stored = new Map();
+    Object.defineProperty(window, 'localStorage', {
+      value: {
+        getItem: jest.fn((key: string) => stored.get(key) ?? null),
+        setItem: jest.fn((key: string, value: string) => stored.set(key, value)),
+        removeItem: jest.fn((key: string) => stored.delete(key))
+      },
+      writable: true
+    });
+  });
+
+  it('should move the queue of the unnamespaced key into the namespaced one once', () => {
+    const now = Date.now();
+    stored.set('error-explorer-offline-queue', JSON.stringify([item('legacy', now - 2000), item('shared', now - 1000)]));
+    stored.set('error-explorer-offline-queue:shop', JSON.stringify([item('shared', now - 1000), item('current', now)]));
+
+    const manager = new OfflineManager(5, 24 * 60 * 60 * 1000, 'shop');
+    const widget = new OfflineManager(5, 24 * 60 * 60 * 1000, 'chat-widget');
+
+    expect(read('error-explorer-offline-queue:shop').map((queued: any) => queued.id)).toEqual(['legacy', 'shared', 'current']);
+    expect(stored.has('error-explorer-offline-queue')).toBe(false);
+    expect(stored.has('error-explorer-offline-queue:chat-widget')).toBe(false);
+    expect(manager.getQueueStats().size).toBe(3);
+    manager.destroy();
+    widget.destroy();
+  });
+
+  it('should keep the newest events within the queue size', () => {
+    const now = Date.now();
+    stored.set('error-explorer-offline-queue', JSON.stringify([item('a', now - 3000), item('b', now - 2000), item('c', now - 1000)]));
+
+    const manager = new OfflineManager(2, 24 * 60 * 60 * 1000, 'shop');
+
+    expect(read('error-explorer-offline-queue:shop').map((queued: any) => queued.id)).toEqual(['b', 'c']);
+    manager.destroy();
+  });
 });
\ No newline at end of file
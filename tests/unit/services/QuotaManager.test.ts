@@ -0,0 +1,55 @@
+import { QuotaManager } from '../../../src/services/QuotaManager';
+
+describe('QuotaManager', () => {
+  let stored: Map<string, string>;
+
+  const createManager = (storageNamespace?: string) => new QuotaManager({
+    dailyLimit: 100,
+    monthlyLimit: 1000,
+    payloadSizeLimit: 50000,
+    burstLimit: 10,
+    burstWindowMs: 60000,
+    storageNamespace
+  });
+
+  beforeEach(() => {
+    stored = new Map();
+    (localStorage.getItem as jest.Mock).mockImplementation((key: string) => stored.get(key) ?? null);
+    (localStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => stored.set(key, value));
+    (localStorage.removeItem as jest.Mock).mockImplementation((key: string) => stored.delete(key));
+  });
+
+  it('should keep the counters of each namespace apart', () => {
+    createManager('shop').recordUsage(100);
+
+    expect(createManager('shop').getStats().dailyUsage).toBe(1);
+    expect(createManager('chat-widget').getStats().dailyUsage).toBe(0);
+  });
+
+  it('should add the counters of the unnamespaced key to the namespaced ones once', () => {
+    const today = createManager();
+    today.recordUsage(100);
+    today.recordUsage(100);
+    createManager('shop').recordUsage(100);
+
+    const stats = createManager('shop').getStats();
+
+    expect(stats.dailyUsage).toBe(3);
+    expect(stats.monthlyUsage).toBe(3);
+    expect(stored.has('error-explorer-quota')).toBe(false);
+    expect(createManager('chat-widget').getStats().dailyUsage).toBe(0);
+  });
+
+  it('should not count legacy counters of a past day', () => {
+    stored.set('error-explorer-quota', JSON.stringify({
+      dailyCount: 7,
+      monthlyCount: 7,
+      burstCounts: [],
+      lastResetDate: '2000-01-01',
+      lastResetMonth: '2000-01'
+    }));
+
+    expect(createManager('shop').getStats().dailyUsage).toBe(0);
+    expect(stored.has('error-explorer-quota')).toBe(false);
+  });
+});
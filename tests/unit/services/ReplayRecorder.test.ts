@@ -0,0 +1,125 @@
+import { ReplayRecorder } from '../../../src/services/ReplayRecorder';
+import { SecurityValidator } from '../../../src/services/SecurityValidator';
+
+describe('ReplayRecorder', () => {
+  let recorder: ReplayRecorder;
+
+  const createRecorder = (config = {}) => new ReplayRecorder({ enabled: true, ...config }, new SecurityValidator());
+
+  const type = (input: HTMLInputElement, value: string) => {
+    input.value = value;
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <form id="checkout">
+        <input name="email" class="field" />
+        <input name="password" type="password" />
+        <button type="button" class="btn primary" data-testid="submit">Pay</button>
+      </form>
+      <div data-error-explorer-block><button id="secret">Hidden</button></div>
+      <p data-error-explorer-mask><span id="balance">1200 EUR</span></p>
+    `;
+    recorder = createRecorder();
+  });
+
+  afterEach(() => {
+    recorder.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should not record anything when disabled', () => {
+    recorder.destroy();
+    recorder = new ReplayRecorder({}, new SecurityValidator());
+
+    document.querySelector('button')!.click();
+
+    expect(recorder.isRecording()).toBe(false);
+    expect(recorder.getSegment()).toBeNull();
+  });
+
+  it('should record clicks with a selector of the target', () => {
+    document.querySelector<HTMLButtonElement>('[data-testid="submit"]')!.click();
+
+    const segment = recorder.getSegment()!;
+    expect(segment.events).toHaveLength(1);
+    expect(segment.events[0]).toMatchObject({
+      type: 'click',
+      target: 'form#checkout > button.btn.primary[data-testid="submit"]',
+      offset: 0
+    });
+    expect(segment.url).toBe('http://localhost:3000');
+  });
+
+  it('should mask input values and collapse keystrokes', () => {
+    const email = document.querySelector<HTMLInputElement>('[name="email"]')!;
+    type(email, 'j');
+    type(email, 'john@example.com');
+
+    const events = recorder.getSegment()!.events;
+    expect(events).toHaveLength(1);
+    expect(events[0]!.data).toEqual({ length: 16 });
+  });
+
+  it('should apply the sensitive data patterns when inputs are not masked', () => {
+    recorder.destroy();
+    recorder = createRecorder({ maskAllInputs: false });
+
+    type(document.querySelector<HTMLInputElement>('[name="email"]')!, 'mail john@example.com');
+    type(document.querySelector<HTMLInputElement>('[name="password"]')!, 'hunter2');
+
+    const events = recorder.getSegment()!.events;
+    expect(events[0]!.data).toEqual({ length: 21, value: 'mail [REDACTED]' });
+    expect(events[1]!.data).toEqual({ length: 7 });
+  });
+
+  it('should ignore blocked elements and mask text of masked ones', async () => {
+    document.getElementById('secret')!.click();
+    document.getElementById('balance')!.firstChild!.textContent = '0 EUR';
+    await Promise.resolve();
+
+    const events = recorder.getSegment()!.events;
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'mutation',
+      target: 'span#balance',
+      data: { kind: 'text', text: '* ***' }
+    });
+  });
+
+  it('should record added and removed elements', async () => {
+    document.getElementById('checkout')!.appendChild(document.createElement('section'));
+    await Promise.resolve();
+
+    expect(recorder.getSegment()!.events[0]!.data).toEqual({ kind: 'childList', added: ['section'], removed: 0 });
+  });
+
+  it('should only keep events of the buffer duration', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    document.querySelector('button')!.click();
+    now.mockReturnValue(40000);
+    document.querySelector('button')!.click();
+
+    const segment = recorder.getSegment()!;
+    expect(segment.events).toHaveLength(1);
+    expect(segment.started_at).toBe(new Date(40000).toISOString());
+  });
+
+  it('should drop the oldest events to stay within the size limit', () => {
+    recorder.destroy();
+    recorder = createRecorder({ maxEvents: 100 });
+
+    for (let i = 0; i < 100; i++) {
+      document.querySelector('button')!.click();
+    }
+
+    const full = recorder.getSegment()!;
+    const limited = recorder.getSegment(2048)!;
+
+    expect(full.events).toHaveLength(100);
+    expect(new Blob([JSON.stringify(limited)]).size).toBeLessThanOrEqual(2048);
+    expect(limited.events.length + limited.dropped_events!).toBe(100);
+    expect(recorder.getSegment(10)).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { RetryManager } from '../../../src/services/RetryManager';
+import { TimeoutError } from '../../../src/errors';
+
+describe('RetryManager', () => {
+  let retryManager: RetryManager;
+
+  beforeEach(() => {
+    retryManager = new RetryManager({
+      maxRetries: 2,
+      initialDelay: 1,
+      maxDelay: 1,
+      jitter: false
+    });
+  });
+
+  describe('executeWithRetry', () => {
+    it('should return the result on success', async () => {
+      const operation = jest.fn().mockResolvedValue('ok');
+
+      const result = await retryManager.executeWithRetry(operation);
+
+      expect(result.success).toBe(true);
+      expect(result.result).toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry timeouts', async () => {
+      const operation = jest.fn()
+        .mockRejectedValueOnce(new TimeoutError(4000))
+        .mockResolvedValue('ok');
+
+      const result = await retryManager.executeWithRetry(operation);
+
+      expect(result.success).toBe(true);
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after max retries on repeated timeouts', async () => {
+      const operation = jest.fn().mockRejectedValue(new TimeoutError(4000));
+
+      const result = await retryManager.executeWithRetry(operation);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(TimeoutError);
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors', async () => {
+      const operation = jest.fn().mockRejectedValue(new Error('HTTP error! status: 400'));
+
+      const result = await retryManager.executeWithRetry(operation);
+
+      expect(result.success).toBe(false);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
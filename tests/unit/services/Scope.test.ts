@@ -0,0 +1,176 @@
+/**
+ * @jest-environment node
+ */
+import { Scope } from '../../../src/services/Scope';
+import { BreadcrumbManager } from '../../../src/services/BreadcrumbManager';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+import { setAsyncContextStorage } from '../../../src/services/AsyncContext';
+import { createServerReporter } from '../../../src/plugin/server';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Transport, TransportRequest } from '../../../src/types';
+
+describe('Scope', () => {
+  it('should copy its data on clone', () => {
+    const scope = new Scope(new BreadcrumbManager(10));
+    scope.setUser({ id: 1 });
+    scope.setContext('cart', { items: 2 });
+    scope.setTag('flow', 'checkout');
+    scope.addBreadcrumb('Opened cart');
+
+    const copy = scope.clone();
+    copy.setUser({ email: 'a@example.com' });
+    copy.setContext('payment', 'card');
+    copy.setTag('flow', 'sync');
+    copy.addBreadcrumb('Paid');
+
+    expect(scope.getUser()).toEqual({ id: 1 });
+    expect(scope.getContext()).toEqual({ cart: { items: 2 } });
+    expect(scope.getTags()).toEqual({ flow: 'checkout' });
+    expect(scope.getBreadcrumbManager().getBreadcrumbs()).toHaveLength(1);
+    expect(copy.getUser()).toEqual({ id: 1, email: 'a@example.com' });
+    expect(copy.getBreadcrumbManager().getBreadcrumbs().map(crumb => crumb.message)).toEqual(['Opened cart', 'Paid']);
+  });
+
+  it('should capture nothing without a client', async () => {
+    await expect(new Scope().captureException(new Error('Detached'))).resolves.toBeUndefined();
+  });
+});
+
+describe('ErrorReporter scopes', () => {
+  let requests: TransportRequest[];
+  let reporter: ErrorReporter;
+
+  const payloads = () => requests.map(request => JSON.parse(request.body as string));
+
+  // Not detected before Node 20.16
+  beforeAll(() => {
+    setAsyncContextStorage(AsyncLocalStorage);
+  });
+
+  beforeEach(() => {
+    requests = [];
+    const transport: Transport = {
+      send: jest.fn(async (request: TransportRequest) => {
+        requests.push(request);
+        return { ok: true, status: 200 };
+      })
+    };
+    reporter = createServerReporter({
+      webhookUrl: 'https://errors.example.com/webhook/abc',
+      projectName: 'shop',
+      environment: 'staging',
+      duplicateErrorWindow: 0,
+      transport
+    });
+    reporter.setUser({ id: 'anonymous' });
+    reporter.setTag('app', 'shop');
+  });
+
+  afterEach(() => {
+    reporter.destroy();
+  });
+
+  it('should apply a scope only inside withScope', async () => {
+    const captured = reporter.withScope((scope) => {
+      scope.setTag('flow', 'checkout');
+      reporter.setContext('order', { id: 42 });
+      reporter.addBreadcrumb('Submitted order');
+      return reporter.captureException(new Error('Payment declined'));
+    });
+    await captured;
+    await reporter.captureException(new Error('Unrelated'));
+
+    const [inside, outside] = payloads();
+    expect(inside.tags).toEqual({ app: 'shop', flow: 'checkout' });
+    expect(inside.context.order).toEqual({ id: 42 });
+    expect(inside.breadcrumbs.map((crumb: any) => crumb.message)).toContain('Submitted order');
+    expect(outside.tags).toEqual({ app: 'shop' });
+    expect(outside.context.order).toBeUndefined();
+    expect(outside.breadcrumbs.map((crumb: any) => crumb.message)).not.toContain('Submitted order');
+  });
+
+  it('should pop the scope when the callback throws', () => {
+    expect(() => reporter.withScope(() => {
+      reporter.pushScope();
+      throw new Error('Failed');
+    })).toThrow('Failed');
+
+    expect(reporter.getScope().getTags()).toEqual({ app: 'shop' });
+  });
+
+  it('should keep concurrent async operations apart', async () => {
+    const operation = (orderId: number, delay: number) => reporter.withScopeAsync(async (scope) => {
+      scope.setContext('order', { id: orderId });
+      scope.setUser({ id: `customer-${orderId}` });
+      await new Promise(resolve => setTimeout(resolve, delay));
+      await scope.captureException(new Error(`Order ${orderId} failed`));
+    });
+
+    await Promise.all([operation(1, 20), operation(2, 5)]);
+
+    const byMessage = Object.fromEntries(payloads().map(payload => [payload.message, payload]));
+    expect(byMessage['Order 1 failed'].context.order).toEqual({ id: 1 });
+    expect(byMessage['Order 1 failed'].user).toEqual({ id: 'customer-1' });
+    expect(byMessage['Order 2 failed'].context.order).toEqual({ id: 2 });
+    expect(byMessage['Order 2 failed'].tags).toEqual({ app: 'shop' });
+    expect(reporter.getScope().getContext().order).toBeUndefined();
+  });
+
+  it('should keep the scope of withScopeAsync current across awaits', async () => {
+    const operation = (orderId: number, delay: number) => reporter.withScopeAsync(async () => {
+      reporter.setContext('order', { id: orderId });
+      await new Promise(resolve => setTimeout(resolve, delay));
+      reporter.addBreadcrumb(`Charged order ${orderId}`);
+      await reporter.captureException(new Error(`Order ${orderId} failed`));
+    });
+
+    await Promise.all([operation(1, 20), operation(2, 5)]);
+    await reporter.captureException(new Error('Unrelated'));
+
+    const byMessage = Object.fromEntries(payloads().map(payload => [payload.message, payload]));
+    expect(byMessage['Order 1 failed'].context.order).toEqual({ id: 1 });
+    expect(byMessage['Order 1 failed'].breadcrumbs.map((crumb: any) => crumb.message)).toEqual(['Charged order 1']);
+    expect(byMessage['Order 2 failed'].context.order).toEqual({ id: 2 });
+    expect(byMessage['Order 2 failed'].breadcrumbs.map((crumb: any) => crumb.message)).toEqual(['Charged order 2']);
+    expect(byMessage['Unrelated'].context.order).toBeUndefined();
+    expect(byMessage['Unrelated'].breadcrumbs).toEqual([]);
+  });
+
+  it('should make the scope current until the first await without async context', async () => {
+    setAsyncContextStorage(null);
+    const browserReporter = createServerReporter({
+      webhookUrl: 'https://errors.example.com/webhook/abc',
+      projectName: 'shop',
+      environment: 'staging',
+      duplicateErrorWindow: 0,
+      transport: { send: jest.fn(async (request: TransportRequest) => {
+        requests.push(request);
+        return { ok: true, status: 200 };
+      }) }
+    });
+    setAsyncContextStorage(AsyncLocalStorage);
+
+    try {
+      await browserReporter.withScopeAsync(async (scope) => {
+        scope.setTag('flow', 'checkout');
+        const captured = browserReporter.captureException(new Error('Before await'));
+        await captured;
+        await scope.captureException(new Error('After await'));
+      });
+
+      const [before, after] = payloads();
+      expect(before.tags).toEqual({ flow: 'checkout' });
+      expect(after.tags).toEqual({ flow: 'checkout' });
+      expect(browserReporter.getScope().getTags()).toEqual({});
+    } finally {
+      browserReporter.destroy();
+    }
+  });
+
+  it('should never pop the root scope', () => {
+    reporter.popScope();
+    reporter.popScope();
+
+    expect(reporter.getScope().getTags()).toEqual({ app: 'shop' });
+  });
+});
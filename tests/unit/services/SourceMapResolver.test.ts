@@ -0,0 +1,148 @@
+import { SourceMapResolver } from '../../../src/services/SourceMapResolver';
+import { HttpInstrumentation } from '../../../src/services/HttpInstrumentation';
+import { SecurityValidator } from '../../../src/services/SecurityValidator';
+import { HttpRequestInfo, RawSourceMap, StackFrame } from '../../../src/types';
+
+describe('SourceMapResolver', () => {
+  const scriptUrl = 'https://cdn.example.com/assets/app.3f9a.js';
+
+  // Line 1, column 0 maps to Cart.vue 1:1; column 10 maps to Cart.vue 3:5 named applyDiscount
+  const sourceMap: RawSourceMap = {
+    version: 3,
+    sources: ['webpack:///src/components/Cart.vue'],
+    sourcesContent: ['<script setup>\nconst total = 0;\nfunction applyDiscount() {\n  throw new Error();\n}'],
+    names: ['applyDiscount'],
+    mappings: 'AAAA,UAEIA'
+  };
+
+  const minifiedFrame = (column: number): StackFrame => ({
+    function: 'n',
+    filename: scriptUrl,
+    line: 1,
+    column,
+    in_app: true
+  });
+
+  afterEach(() => {
+    delete (global as any).fetch;
+  });
+
+  it('should leave frames untouched when disabled', async () => {
+    const resolver = new SourceMapResolver({ sourceMaps: { [scriptUrl]: sourceMap } });
+    const frames = [minifiedFrame(12)];
+
+    expect(await resolver.resolveFrames(frames)).toEqual(frames);
+  });
+
+  it('should rewrite frames with provided source maps', async () => {
+    const resolver = new SourceMapResolver({
+      enabled: true,
+      contextLines: 1,
+      sourceMaps: { [scriptUrl]: sourceMap }
+    });
+
+    const [frame] = await resolver.resolveFrames([minifiedFrame(12)]);
+
+    expect(frame).toEqual({
+      function: 'applyDiscount',
+      filename: 'src/components/Cart.vue',
+      line: 3,
+      column: 5,
+      in_app: true,
+      pre_context: ['const total = 0;'],
+      context_line: 'function applyDiscount() {',
+      post_context: ['  throw new Error();']
+    });
+  });
+
+  it('should keep the original function name for unnamed segments', async () => {
+    const resolver = new SourceMapResolver({ enabled: true, sourceMaps: { [scriptUrl]: sourceMap } });
+
+    const [frame] = await resolver.resolveFrames([minifiedFrame(3)]);
+
+    expect(frame!.function).toBe('n');
+    expect(frame!.line).toBe(1);
+  });
+
+  it('should skip frames without a remote script', async () => {
+    const resolver = new SourceMapResolver({ enabled: true });
+    const frame: StackFrame = { function: 'map', filename: '<anonymous>', in_app: false };
+
+    expect(await resolver.resolveFrames([frame])).toEqual([frame]);
+  });
+
+  it('should discover maps through sourceMappingURL and cache them', async () => {
+    const fetchMock = jest.fn((url: string, _init?: RequestInit) => Promise.resolve(url === scriptUrl
+      ? {
+        ok: true,
+        headers: { get: () => null },
+        text: () => Promise.resolve('!function(){}();\n//# sourceMappingURL=app.3f9a.js.map')
+      }
+      : {
+        ok: true,
+        json: () => Promise.resolve(sourceMap)
+      }));
+    (global as any).fetch = fetchMock;
+
+    const resolver = new SourceMapResolver({ enabled: true });
+    const frames = await resolver.resolveFrames([minifiedFrame(12), minifiedFrame(3)]);
+
+    expect(frames.map(frame => frame.filename)).toEqual(['src/components/Cart.vue', 'src/components/Cart.vue']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock).toHaveBeenCalledWith(`${scriptUrl}.map`, { signal: expect.any(AbortSignal) });
+  });
+
+  it('should keep its requests out of the recorded HTTP requests', async () => {
+    window.fetch = jest.fn((url: string) => Promise.resolve(url === scriptUrl
+      ? {
+        ok: true,
+        status: 200,
+        headers: { get: () => null },
+        text: () => Promise.resolve('!function(){}();\n//# sourceMappingURL=app.3f9a.js.map')
+      }
+      : { ok: false, status: 503 })) as unknown as typeof fetch;
+    const recorded: HttpRequestInfo[] = [];
+    const instrumentation = new HttpInstrumentation({}, new SecurityValidator());
+    instrumentation.setHandler((request) => recorded.push(request));
+    instrumentation.instrument();
+
+    try {
+      await new SourceMapResolver({ enabled: true }).resolveFrames([minifiedFrame(12)]);
+      await fetch('https://api.example.com/cart');
+
+      expect(recorded.map(request => request.url)).toEqual(['https://api.example.com/cart']);
+    } finally {
+      instrumentation.destroy();
+    }
+  });
+
+  it('should leave frames untouched when the map cannot be loaded', async () => {
+    (global as any).fetch = jest.fn().mockRejectedValue(new Error('Network error'));
+
+    const resolver = new SourceMapResolver({ enabled: true });
+    const frames = [minifiedFrame(12)];
+
+    expect(await resolver.resolveFrames(frames)).toEqual(frames);
+  });
+
+  it('should give up on a source map request that never completes', async () => {
+    jest.useFakeTimers();
+    let signal: AbortSignal | undefined;
+    (global as any).fetch = jest.fn((_url: string, init?: RequestInit) => {
+      signal = init?.signal || undefined;
+      return new Promise(() => {});
+    });
+
+    try {
+      const resolver = new SourceMapResolver({ enabled: true, timeout: 1000 });
+      const frames = [minifiedFrame(12)];
+      const resolved = resolver.resolveFrames(frames);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(await resolved).toEqual(frames);
+      expect(signal!.aborted).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
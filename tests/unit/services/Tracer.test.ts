@@ -0,0 +1,165 @@
+import { Tracer, Transaction } from '../../../src/services/Tracer';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+import { TransportRequest } from '../../../src/types';
+
+describe('Tracer', () => {
+  let tracer: Tracer;
+  let sent: Transaction[];
+
+  beforeEach(() => {
+    tracer = new Tracer({ tracesSampleRate: 1 });
+    sent = [];
+    tracer.setSendFunction((transaction) => sent.push(transaction));
+  });
+
+  describe('sampling', () => {
+    it('should be disabled by default', () => {
+      const disabled = new Tracer();
+      disabled.setSendFunction((transaction) => sent.push(transaction));
+
+      const transaction = disabled.startTransaction({ name: 'test' });
+      transaction.finish();
+
+      expect(disabled.isEnabled()).toBe(false);
+      expect(transaction.sampled).toBe(false);
+      expect(sent).toHaveLength(0);
+    });
+
+    it('should only send sampled transactions', () => {
+      tracer.updateConfig({ tracesSampleRate: 0.5 });
+      const randomSpy = jest.spyOn(Math, 'random');
+
+      randomSpy.mockReturnValueOnce(0.7);
+      tracer.startTransaction({ name: 'dropped' }).finish();
+      randomSpy.mockReturnValueOnce(0.2);
+      tracer.startTransaction({ name: 'kept' }).finish();
+
+      randomSpy.mockRestore();
+      expect(sent.map(transaction => transaction.name)).toEqual(['kept']);
+    });
+  });
+
+  describe('transactions', () => {
+    it('should build a payload with its child spans', () => {
+      const transaction = tracer.startTransaction({ name: '/users/:id', op: 'navigation', tags: { from: '/' } });
+      const span = transaction.startChild({ op: 'ui.vue.mount', description: 'UserProfile' });
+      transaction.startChild({ op: 'http.client' }, span).finish();
+      span.finish();
+      transaction.finish();
+
+      const payload = transaction.toPayload();
+      expect(payload.event_type).toBe('transaction');
+      expect(payload.name).toBe('/users/:id');
+      expect(payload.op).toBe('navigation');
+      expect(payload.tags).toEqual({ from: '/' });
+      expect(payload.spans).toHaveLength(2);
+      expect(payload.spans[0]!.parent_span_id).toBe(transaction.spanId);
+      expect(payload.spans[1]!.parent_span_id).toBe(span.spanId);
+      expect(payload.spans.every(child => child.status === 'ok')).toBe(true);
+    });
+
+    it('should cancel spans still running when it finishes', () => {
+      const transaction = tracer.startTransaction({ name: 'test' });
+      const span = transaction.startChild({ op: 'slow' });
+      transaction.finish();
+
+      expect(span.isFinished()).toBe(true);
+      expect(span.status).toBe('cancelled');
+    });
+
+    it('should only be sent once', () => {
+      const transaction = tracer.startTransaction({ name: 'test' });
+      transaction.finish();
+      transaction.finish();
+
+      expect(sent).toHaveLength(1);
+      expect(tracer.getActiveTransaction()).toBeNull();
+    });
+
+    it('should limit the number of recorded spans', () => {
+      tracer.updateConfig({ maxSpans: 2 });
+      const transaction = tracer.startTransaction({ name: 'test' });
+      for (let i = 0; i < 5; i++) {
+        transaction.startChild({ op: 'child' }).finish();
+      }
+
+      expect(transaction.toPayload().spans).toHaveLength(2);
+    });
+  });
+
+  describe('startSpan', () => {
+    it('should create a child of the active transaction', () => {
+      const transaction = tracer.startTransaction({ name: 'test' });
+      const result = tracer.startSpan({ op: 'compute' }, (span) => {
+        expect(span.parentSpanId).toBe(transaction.spanId);
+        return 42;
+      });
+
+      expect(result).toBe(42);
+      transaction.finish();
+      expect(transaction.toPayload().spans[0]!.op).toBe('compute');
+    });
+
+    it('should start a transaction when none is active', () => {
+      tracer.startSpan({ op: 'compute', description: 'standalone' }, () => undefined);
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0]!.name).toBe('standalone');
+    });
+
+    it('should mark the span as failed when the callback throws', () => {
+      const transaction = tracer.startTransaction({ name: 'test' });
+
+      expect(() => tracer.startSpan({ op: 'compute' }, () => {
+        throw new Error('boom');
+      })).toThrow('boom');
+
+      expect(transaction.toPayload().spans[0]!.status).toBe('error');
+    });
+
+    it('should finish when the returned promise settles', async () => {
+      const transaction = tracer.startTransaction({ name: 'test' });
+
+      await expect(tracer.startSpan({ op: 'fetch' }, () => Promise.reject(new Error('network')))).rejects.toThrow('network');
+      const value = await tracer.startSpan({ op: 'fetch' }, () => Promise.resolve('ok'));
+
+      expect(value).toBe('ok');
+      const spans = transaction.toPayload().spans;
+      expect(spans.map(span => span.status)).toEqual(['error', 'ok']);
+      expect(spans.every(span => span.duration >= 0)).toBe(true);
+    });
+  });
+
+  describe('reporter delivery', () => {
+    it('should count transactions against the rate limit and quota', async () => {
+      const requests: TransportRequest[] = [];
+      const reporter = new ErrorReporter({
+        webhookUrl: 'https://example.com/webhook',
+        projectName: 'test-project',
+        environment: 'staging',
+        tracesSampleRate: 1,
+        maxRequestsPerMinute: 2,
+        enableBatching: false,
+        enableOfflineSupport: false,
+        transport: {
+          send: async (request) => {
+            requests.push(request);
+            return { status: 200, headers: {} };
+          }
+        }
+      });
+
+      try {
+        for (let i = 0; i < 5; i++) {
+          reporter.startTransaction({ name: `/page/${i}`, op: 'navigation' })!.finish();
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(requests).toHaveLength(2);
+        expect(reporter.getStats().quotaStats.dailyUsage).toBe(2);
+      } finally {
+        reporter.destroy();
+      }
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { UnloadManager } from '../../../src/services/UnloadManager';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+import { ErrorData, Transport } from '../../../src/types';
+
+describe('UnloadManager', () => {
+  let unloadManager: UnloadManager;
+  let sendBeacon: jest.Mock;
+
+  const createError = (message: string, size: number = 0): ErrorData => ({
+    message,
+    exception_class: 'Error',
+    stack_trace: 'x'.repeat(size),
+    file: 'test.js',
+    line: 1,
+    project: 'test-project',
+    environment: 'test',
+    timestamp: new Date().toISOString()
+  });
+
+  beforeEach(() => {
+    sendBeacon = jest.fn().mockReturnValue(true);
+    (navigator as any).sendBeacon = sendBeacon;
+    unloadManager = new UnloadManager({ url: 'https://example.com/webhook' });
+  });
+
+  afterEach(() => {
+    unloadManager.destroy();
+    delete (navigator as any).sendBeacon;
+    delete (global as any).fetch;
+  });
+
+  describe('page listeners', () => {
+    it('should flush on pagehide', () => {
+      const flush = jest.fn();
+      unloadManager.setFlushFunction(flush);
+
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(flush).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flush when the page becomes hidden', () => {
+      const flush = jest.fn();
+      unloadManager.setFlushFunction(flush);
+      const visibility = jest.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+
+      document.dispatchEvent(new Event('visibilitychange'));
+
+      expect(flush).toHaveBeenCalledTimes(1);
+      visibility.mockRestore();
+    });
+
+    it('should not listen when disabled', () => {
+      unloadManager.destroy();
+      unloadManager = new UnloadManager({ url: 'https://example.com/webhook', enabled: false });
+      const flush = jest.fn();
+      unloadManager.setFlushFunction(flush);
+
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(flush).not.toHaveBeenCalled();
+    });
+
+    it('should remove listeners on destroy', () => {
+      const flush = jest.fn();
+      unloadManager.setFlushFunction(flush);
+      unloadManager.destroy();
+
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(flush).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deliver', () => {
+    it('should send all errors in a single beacon', () => {
+      const unsent = unloadManager.deliver([createError('first'), createError('second')]);
+
+      expect(unsent).toEqual([]);
+      expect(sendBeacon).toHaveBeenCalledTimes(1);
+      expect(sendBeacon).toHaveBeenCalledWith('https://example.com/webhook', expect.any(Blob));
+    });
+
+    it('should return errors that do not fit in the budget', () => {
+      const small = createError('small');
+      const large = createError('large', 70 * 1024);
+
+      const unsent = unloadManager.deliver([small, large]);
+
+      expect(unsent).toEqual([large]);
+      expect(sendBeacon).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return all errors when the beacon is rejected and fetch is unavailable', () => {
+      sendBeacon.mockReturnValue(false);
+      const errors = [createError('first')];
+
+      expect(unloadManager.deliver(errors)).toEqual(errors);
+    });
+
+    it('should fall back to fetch with keepalive', () => {
+      delete (navigator as any).sendBeacon;
+      const fetchMock = jest.fn().mockResolvedValue({});
+      (global as any).fetch = fetchMock;
+
+      const unsent = unloadManager.deliver([createError('first')]);
+
+      expect(unsent).toEqual([]);
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/webhook', expect.objectContaining({
+        method: 'POST',
+        keepalive: true
+      }));
+    });
+
+    it('should count only the errors of a batch', () => {
+      delete (navigator as any).sendBeacon;
+      const fetchMock = jest.fn().mockResolvedValue({});
+      (global as any).fetch = fetchMock;
+      const vitals = { event_type: 'web_vitals', metrics: [] } as any;
+
+      unloadManager.deliver([createError('first'), vitals]);
+      const batch = JSON.parse(fetchMock.mock.calls[0][1].body);
+
+      expect(batch.count).toBe(1);
+      expect(batch.events).toHaveLength(1);
+    });
+
+    it('should fill the budget without going over it', () => {
+      unloadManager.destroy();
+      unloadManager = new UnloadManager({ url: 'https://example.com/webhook', maxPayloadSize: 8 * 1024 });
+      const errors = Array.from({ length: 40 }, (_, index) => createError(`error ${index}`, 500));
+
+      const unsent = unloadManager.deliver(errors);
+      const body = sendBeacon.mock.calls[0][1] as Blob;
+
+      expect(unsent.length).toBeGreaterThan(0);
+      expect(unsent.length).toBeLessThan(errors.length);
+      expect(body.size).toBeLessThanOrEqual(8 * 1024);
+    });
+
+    it('should read the url at send time', () => {
+      let url = 'https://example.com/webhook';
+      unloadManager.destroy();
+      unloadManager = new UnloadManager({ url: () => url });
+
+      url = 'https://example.com/other-webhook';
+      unloadManager.deliver([createError('first')]);
+
+      expect(sendBeacon).toHaveBeenCalledWith('https://example.com/other-webhook', expect.any(Blob));
+    });
+
+    it('should do nothing without errors', () => {
+      expect(unloadManager.deliver([])).toEqual([]);
+      expect(sendBeacon).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reporter flush', () => {
+    let reporter: ErrorReporter;
+
+    const createReporter = (config: Record<string, any> = {}) => new ErrorReporter({
+      webhookUrl: 'https://example.com/webhook',
+      projectName: 'test-project',
+      environment: 'test',
+      enableBatching: true,
+      batchSize: 10,
+      ...config
+    });
+
+    const hidePage = () => window.dispatchEvent(new Event('pagehide'));
+
+    afterEach(() => {
+      reporter.destroy();
+      (navigator as any).onLine = true;
+    });
+
+    it('should beacon the batch to the current webhook url', async () => {
+      reporter = createReporter();
+      reporter.updateConfig({ webhookUrl: 'https://example.com/new-webhook' });
+      await reporter.captureException(new Error('Pending'));
+
+      hidePage();
+
+      expect(sendBeacon).toHaveBeenCalledWith('https://example.com/new-webhook', expect.any(Blob));
+    });
+
+    it('should keep everything in storage while offline', async () => {
+      (navigator as any).onLine = false;
+      reporter = createReporter();
+      await reporter.captureException(new Error('Pending'));
+
+      hidePage();
+
+      expect(sendBeacon).not.toHaveBeenCalled();
+      const [key, value] = (localStorage.setItem as jest.Mock).mock.calls.pop();
+      expect(key).toBe('error-explorer-offline-queue:test-project');
+      expect(JSON.parse(value).map((item: any) => item.errorData.message)).toEqual(['Pending']);
+    });
+
+    it('should hand the batch to a custom transport', async () => {
+      const transport: Transport = {
+        send: jest.fn().mockResolvedValue({ status: 200, headers: {} })
+      };
+      reporter = createReporter({ transport });
+      await reporter.captureException(new Error('Pending'));
+
+      hidePage();
+      // The batch is compressed before it reaches the transport
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(sendBeacon).not.toHaveBeenCalled();
+      expect(transport.send).toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,197 @@
+import { WebVitalsCollector, WebVitalsReport, getRating } from '../../../src/services/WebVitalsCollector';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+import { Transport, TransportRequest } from '../../../src/types';
+
+type ObserverCallback = (list: { getEntries: () => PerformanceEntry[] }) => void;
+
+class MockPerformanceObserver {
+  static supportedEntryTypes = ['paint', 'largest-contentful-paint', 'layout-shift', 'event', 'first-input', 'navigation'];
+  static observers: Map<string, MockPerformanceObserver> = new Map();
+
+  constructor(private callback: ObserverCallback) {}
+
+  observe(options: { type: string }) {
+    MockPerformanceObserver.observers.set(options.type, this);
+  }
+
+  disconnect() {}
+
+  static emit(type: string, entries: Record<string, any>[]) {
+    const observer = MockPerformanceObserver.observers.get(type);
+    observer?.callback({ getEntries: () => entries as PerformanceEntry[] });
+  }
+}
+
+describe('WebVitalsCollector', () => {
+  let collector: WebVitalsCollector;
+  let reports: WebVitalsReport[];
+  const originalPerformance = window.performance;
+
+  beforeEach(() => {
+    MockPerformanceObserver.observers.clear();
+    (global as any).PerformanceObserver = MockPerformanceObserver;
+    Object.defineProperty(window, 'performance', {
+      value: {
+        now: jest.fn(() => Date.now()),
+        getEntriesByType: jest.fn((type: string) => type === 'navigation'
+          ? [{
+              type: 'navigate',
+              redirectCount: 0,
+              responseStart: 320.4,
+              domInteractive: 900,
+              domContentLoadedEventEnd: 950,
+              loadEventEnd: 1200,
+              duration: 1200,
+              transferSize: 5120
+            }]
+          : [])
+      },
+      writable: true
+    });
+
+    reports = [];
+    collector = new WebVitalsCollector({ enabled: true });
+    collector.setSendFunction((report) => reports.push(report));
+  });
+
+  afterEach(() => {
+    collector.destroy();
+    delete (global as any).PerformanceObserver;
+    Object.defineProperty(window, 'performance', { value: originalPerformance, writable: true });
+  });
+
+  const hidePage = () => {
+    Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true });
+    document.dispatchEvent(new Event('visibilitychange'));
+    Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true });
+  };
+
+  it('should rate values against the web.dev thresholds', () => {
+    expect(getRating('LCP', 2500)).toBe('good');
+    expect(getRating('LCP', 3000)).toBe('needs-improvement');
+    expect(getRating('CLS', 0.3)).toBe('poor');
+    expect(getRating('INP', 150)).toBe('good');
+  });
+
+  it('should read TTFB from the navigation entry', () => {
+    expect(collector.getMetrics().TTFB).toEqual({ name: 'TTFB', value: 320, rating: 'good' });
+  });
+
+  it('should record FCP and the last LCP candidate', () => {
+    MockPerformanceObserver.emit('paint', [
+      { name: 'first-paint', startTime: 400 },
+      { name: 'first-contentful-paint', startTime: 450 }
+    ]);
+    MockPerformanceObserver.emit('largest-contentful-paint', [{ startTime: 1200 }, { startTime: 2800 }]);
+
+    const metrics = collector.getMetrics();
+    expect(metrics.FCP!.value).toBe(450);
+    expect(metrics.LCP).toEqual({ name: 'LCP', value: 2800, rating: 'needs-improvement' });
+  });
+
+  it('should stop updating LCP after user input', () => {
+    MockPerformanceObserver.emit('largest-contentful-paint', [{ startTime: 1000 }]);
+    window.dispatchEvent(new Event('keydown'));
+    MockPerformanceObserver.emit('largest-contentful-paint', [{ startTime: 5000 }]);
+
+    expect(collector.getMetrics().LCP!.value).toBe(1000);
+  });
+
+  it('should report the largest session window of layout shifts', () => {
+    MockPerformanceObserver.emit('layout-shift', [
+      { startTime: 100, value: 0.05, hadRecentInput: false },
+      { startTime: 600, value: 0.05, hadRecentInput: false },
+      { startTime: 900, value: 0.5, hadRecentInput: true },
+      { startTime: 3000, value: 0.02, hadRecentInput: false }
+    ]);
+
+    expect(collector.getMetrics().CLS).toEqual({ name: 'CLS', value: 0.1, rating: 'good' });
+  });
+
+  it('should use the longest duration of each interaction for INP', () => {
+    MockPerformanceObserver.emit('event', [
+      { interactionId: 1, duration: 80 },
+      { interactionId: 1, duration: 240 },
+      { interactionId: 2, duration: 120 },
+      { interactionId: 0, duration: 900 }
+    ]);
+
+    expect(collector.getMetrics().INP).toEqual({ name: 'INP', value: 240, rating: 'needs-improvement' });
+  });
+
+  it('should report once when the page is hidden', () => {
+    MockPerformanceObserver.emit('paint', [{ name: 'first-contentful-paint', startTime: 450 }]);
+
+    hidePage();
+    hidePage();
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(reports).toHaveLength(1);
+    expect(reports[0]!.route).toBe('/');
+    expect(reports[0]!.metrics.FCP!.value).toBe(450);
+    expect(reports[0]!.navigation).toMatchObject({ type: 'navigate', responseStart: 320 });
+  });
+
+  it('should not observe anything when disabled', () => {
+    collector.destroy();
+    MockPerformanceObserver.observers.clear();
+
+    collector = new WebVitalsCollector();
+    collector.setSendFunction((report) => reports.push(report));
+    hidePage();
+
+    expect(MockPerformanceObserver.observers.size).toBe(0);
+    expect(reports).toHaveLength(0);
+  });
+
+  describe('reporter delivery', () => {
+    let reporter: ErrorReporter;
+    let requests: TransportRequest[];
+
+    const createReporter = (send: Transport['send']) => new ErrorReporter({
+      webhookUrl: 'https://example.com/webhook',
+      projectName: 'test-project',
+      environment: 'staging',
+      enableWebVitals: true,
+      enableBatching: false,
+      enableOfflineSupport: false,
+      maxRetries: 0,
+      transport: { send }
+    });
+
+    beforeEach(() => {
+      requests = [];
+    });
+
+    afterEach(() => {
+      reporter.destroy();
+    });
+
+    it('should send vitals through the transport with keepalive', async () => {
+      reporter = createReporter(async (request) => {
+        requests.push(request);
+        return { status: 200, headers: {} };
+      });
+      MockPerformanceObserver.emit('paint', [{ name: 'first-contentful-paint', startTime: 450 }]);
+
+      hidePage();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0]!.keepalive).toBe(true);
+      expect(JSON.parse(requests[0]!.body as string).event_type).toBe('web_vitals');
+    });
+
+    it('should not persist undelivered vitals without offline support', async () => {
+      reporter = createReporter(async () => {
+        throw new Error('Network error');
+      });
+      MockPerformanceObserver.emit('paint', [{ name: 'first-contentful-paint', startTime: 450 }]);
+
+      hidePage();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(localStorage.setItem).not.toHaveBeenCalledWith('error-explorer-offline-queue:test-project', expect.anything());
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { createTransport, FetchTransport, BeaconTransport, XHRTransport } from '../../../src/transports';
+import { ErrorReporter } from '../../../src/services/ErrorReporter';
+import { TimeoutError } from '../../../src/errors';
+import { Transport, TransportRequest } from '../../../src/types';
+
+describe('Transports', () => {
+  let request: TransportRequest;
+
+  beforeEach(() => {
+    request = {
+      url: 'https://example.com/webhook',
+      body: '{"message":"Test error"}',
+      headers: { 'Content-Type': 'application/json' }
+    };
+  });
+
+  describe('createTransport', () => {
+    it('should default to the fetch transport', () => {
+      expect(createTransport()).toBeInstanceOf(FetchTransport);
+    });
+
+    it('should create built-in transports by name', () => {
+      expect(createTransport('fetch')).toBeInstanceOf(FetchTransport);
+      expect(createTransport('beacon')).toBeInstanceOf(BeaconTransport);
+      expect(createTransport('xhr')).toBeInstanceOf(XHRTransport);
+    });
+
+    it('should return custom transports as-is', () => {
+      const custom: Transport = {
+        send: jest.fn().mockResolvedValue({ status: 200, headers: {} })
+      };
+
+      expect(createTransport(custom)).toBe(custom);
+    });
+  });
+
+  describe('FetchTransport', () => {
+    afterEach(() => {
+      delete (global as any).fetch;
+    });
+
+    it('should post the payload and report status and headers', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({
+        status: 201,
+        headers: new Map([['X-Request-Id', 'abc']]),
+        json: () => Promise.resolve({ id: 1 })
+      });
+      (global as any).fetch = fetchMock;
+
+      const response = await new FetchTransport().send(request);
+
+      expect(fetchMock).toHaveBeenCalledWith(request.url, {
+        method: 'POST',
+        body: request.body,
+        headers: request.headers
+      });
+      expect(response).toEqual({
+        status: 201,
+        headers: { 'x-request-id': 'abc' },
+        body: { id: 1 }
+      });
+    });
+
+    it('should tolerate non-JSON response bodies', async () => {
+      (global as any).fetch = jest.fn().mockResolvedValue({
+        status: 204,
+        headers: new Map(),
+        json: () => Promise.reject(new Error('No content'))
+      });
+
+      const response = await new FetchTransport().send(request);
+
+      expect(response.body).toEqual({});
+    });
+  });
+
+  describe('BeaconTransport', () => {
+    afterEach(() => {
+      delete (navigator as any).sendBeacon;
+    });
+
+    it('should report queued beacons as accepted', async () => {
+      const sendBeacon = jest.fn().mockReturnValue(true);
+      (navigator as any).sendBeacon = sendBeacon;
+
+      const response = await new BeaconTransport().send(request);
+
+      expect(sendBeacon).toHaveBeenCalledWith(request.url, expect.any(Blob));
+      expect(response.status).toBe(202);
+    });
+
+    it('should reject when the browser refuses the beacon', async () => {
+      (navigator as any).sendBeacon = jest.fn().mockReturnValue(false);
+
+      await expect(new BeaconTransport().send(request)).rejects.toThrow('Beacon was rejected');
+    });
+
+    it('should reject when sendBeacon is unavailable', async () => {
+      await expect(new BeaconTransport().send(request)).rejects.toThrow('not supported');
+    });
+  });
+
+  describe('XHRTransport', () => {
+    let xhr: any;
+    let originalXHR: typeof XMLHttpRequest;
+
+    beforeEach(() => {
+      originalXHR = window.XMLHttpRequest;
+      xhr = {
+        open: jest.fn(),
+        setRequestHeader: jest.fn(),
+        send: jest.fn(),
+        getAllResponseHeaders: jest.fn().mockReturnValue('Content-Type: application/json\r\nRetry-After: 30\r\n'),
+        status: 200,
+        responseText: '{"ok":true}'
+      };
+      (window as any).XMLHttpRequest = jest.fn(() => xhr);
+    });
+
+    afterEach(() => {
+      window.XMLHttpRequest = originalXHR;
+    });
+
+    it('should send the payload with headers and parse the response', async () => {
+      const promise = new XHRTransport().send(request);
+      xhr.onload();
+
+      const response = await promise;
+
+      expect(xhr.open).toHaveBeenCalledWith('POST', request.url, true);
+      expect(xhr.setRequestHeader).toHaveBeenCalledWith('Content-Type', 'application/json');
+      expect(xhr.send).toHaveBeenCalledWith(request.body);
+      expect(response).toEqual({
+        status: 200,
+        headers: { 'content-type': 'application/json', 'retry-after': '30' },
+        body: { ok: true }
+      });
+    });
+
+    it('should reject on network errors', async () => {
+      const promise = new XHRTransport().send(request);
+      xhr.onerror();
+
+      await expect(promise).rejects.toThrow('Network error');
+    });
+
+    it('should abort on the signal and stop listening once settled', async () => {
+      const controller = new AbortController();
+      const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+      xhr.abort = jest.fn();
+
+      const aborted = new XHRTransport().send({ ...request, signal: controller.signal });
+      controller.abort();
+      await expect(aborted).rejects.toThrow('Request aborted');
+      expect(xhr.abort).toHaveBeenCalled();
+
+      const completed = new XHRTransport().send({ ...request, signal: controller.signal });
+      xhr.onload();
+      await completed;
+
+      expect(removeListener).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('request timeout', () => {
+    let reporter: ErrorReporter;
+
+    afterEach(() => {
+      reporter.destroy();
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('should abort a hanging transport with a TimeoutError', async () => {
+      jest.useFakeTimers();
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      const signals: AbortSignal[] = [];
+      const transport: Transport = {
+        send: jest.fn((hanging: TransportRequest) => {
+          signals.push(hanging.signal!);
+          return new Promise(() => {});
+        })
+      };
+      reporter = new ErrorReporter({
+        webhookUrl: 'https://example.com/webhook',
+        projectName: 'test-project',
+        environment: 'test',
+        transport,
+        timeout: 1000,
+        maxRetries: 0,
+        debug: true,
+        enableOfflineSupport: false,
+        enableBatching: false
+      });
+
+      let settled = false;
+      void reporter.captureException(new Error('Slow backend')).then(() => { settled = true; });
+      // The failed send is retried once more outside the retry manager, with its own timer
+      for (let round = 0; round < 10 && !settled; round++) {
+        await jest.advanceTimersByTimeAsync(1000);
+      }
+
+      expect(settled).toBe(true);
+      expect(signals[0]!.aborted).toBe(true);
+      expect(consoleError).toHaveBeenCalledWith('[ErrorExplorer] Failed to send error:', expect.any(TimeoutError));
+      expect(reporter.getStats().performanceMetrics.timeouts).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { extractLinkedExceptions, getRootCause } from '../../../src/utils/errorChain';
+import { ErrorData } from '../../../src/types';
+
+describe('extractLinkedExceptions', () => {
+  const withCause = (message: string, cause: unknown): Error => {
+    const error = new Error(message);
+    (error as any).cause = cause;
+    return error;
+  };
+
+  const createAggregate = (errors: unknown[], message: string): Error => {
+    const error = new Error(message);
+    error.name = 'AggregateError';
+    (error as any).errors = errors;
+    return error;
+  };
+
+  it('should return nothing for plain errors', () => {
+    expect(extractLinkedExceptions(new Error('plain'))).toEqual([]);
+  });
+
+  it('should follow cause chains', () => {
+    const networkError = new TypeError('Failed to fetch');
+    const error = withCause('save failed', withCause('request failed', networkError));
+
+    const linked = extractLinkedExceptions(error);
+
+    expect(linked.map(item => [item.exception_id, item.parent_id, item.relation, item.exception_class, item.message])).toEqual([
+      [1, 0, 'cause', 'Error', 'request failed'],
+      [2, 1, 'cause', 'TypeError', 'Failed to fetch']
+    ]);
+    expect(linked[1]!.stack_trace).toBe(networkError.stack);
+    expect(linked[1]!.stack_frames.length).toBeGreaterThan(0);
+  });
+
+  it('should collect AggregateError entries', () => {
+    const error = createAggregate([new Error('first'), new RangeError('second')], 'All promises were rejected');
+
+    const linked = extractLinkedExceptions(error);
+
+    expect(linked.map(item => [item.relation, item.exception_class, item.message])).toEqual([
+      ['aggregate', 'Error', 'first'],
+      ['aggregate', 'RangeError', 'second']
+    ]);
+  });
+
+  it('should respect the maximum depth', () => {
+    const error = withCause('1', withCause('2', withCause('3', new Error('4'))));
+
+    expect(extractLinkedExceptions(error, 2).map(item => item.message)).toEqual(['2', '3']);
+  });
+
+  it('should stop on circular causes', () => {
+    const first = new Error('first');
+    const second = withCause('second', first);
+    (first as any).cause = second;
+
+    expect(extractLinkedExceptions(first).map(item => item.message)).toEqual(['second']);
+  });
+
+  it('should describe non-error causes', () => {
+    const linked = extractLinkedExceptions(withCause('failed', { code: 'E_TIMEOUT' }));
+
+    expect(linked[0]).toMatchObject({
+      exception_class: 'Object',
+      message: '{"code":"E_TIMEOUT"}',
+      stack_frames: []
+    });
+  });
+});
+
+describe('getRootCause', () => {
+  it('should return the deepest cause', () => {
+    const error = new Error('save failed');
+    (error as any).cause = new Error('request failed');
+    (error as any).cause.cause = new TypeError('Failed to fetch');
+
+    const errorData = {
+      message: error.message,
+      linked_exceptions: extractLinkedExceptions(error)
+    } as ErrorData;
+
+    expect(getRootCause(errorData)!.message).toBe('Failed to fetch');
+  });
+
+  it('should ignore aggregate entries', () => {
+    const aggregate = new Error('All promises were rejected');
+    aggregate.name = 'AggregateError';
+    (aggregate as any).errors = [new Error('first')];
+
+    const errorData = {
+      message: aggregate.message,
+      linked_exceptions: extractLinkedExceptions(aggregate)
+    } as ErrorData;
+
+    expect(getRootCause(errorData)).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+import { reactive, ref } from 'vue';
+import { normalize } from '../../../src/utils/normalize';
+
+describe('normalize', () => {
+  it('should keep plain data as is', () => {
+    const data = { id: 1, name: 'Jane', tags: ['a', 'b'], active: true, parent: null };
+    expect(normalize(data)).toEqual(data);
+  });
+
+  it('should unwrap reactive proxies and refs', () => {
+    const state = reactive({ user: { id: 3 }, count: ref(2) });
+    expect(normalize({ state, total: ref(10) })).toEqual({ state: { user: { id: 3 }, count: 2 }, total: 10 });
+  });
+
+  it('should replace values that cannot be serialized', () => {
+    function onSave() {}
+    const element = document.createElement('button');
+    element.id = 'save';
+
+    expect(normalize({
+      onSave,
+      symbol: Symbol('token'),
+      big: BigInt(12),
+      missing: undefined,
+      ratio: NaN,
+      date: new Date('2024-01-02T03:04:05.000Z'),
+      error: new TypeError('Boom'),
+      element
+    })).toEqual({
+      onSave: '[Function: onSave]',
+      symbol: '[Symbol(token)]',
+      big: '[BigInt: 12]',
+      missing: '[Undefined]',
+      ratio: 'NaN',
+      date: '2024-01-02T03:04:05.000Z',
+      error: { name: 'TypeError', message: 'Boom' },
+      element: '[Element: button#save]'
+    });
+  });
+
+  it('should apply depth, breadth and string length limits', () => {
+    const result = normalize({
+      nested: { level2: { level3: { deep: true } }, list: [1, 2] },
+      items: Array.from({ length: 30 }, (_, index) => index),
+      text: 'x'.repeat(300)
+    }, { maxDepth: 2, maxBreadth: 25, maxStringLength: 10 });
+
+    expect(result.nested).toEqual({ level2: '[Object]', list: '[Array(2)]' });
+    expect(result.items).toHaveLength(26);
+    expect(result.items[25]).toBe('[...5 more]');
+    expect(result.text).toBe(`${'x'.repeat(10)}...`);
+  });
+
+  it('should detect cycles but keep shared references', () => {
+    const shared = { id: 1 };
+    const node: any = { first: shared, second: shared };
+    node.self = node;
+
+    expect(normalize(node)).toEqual({ first: { id: 1 }, second: { id: 1 }, self: '[Circular]' });
+  });
+
+  it('should convert maps and sets', () => {
+    expect(normalize({ ids: new Set([1, 2]), byId: new Map([[1, 'a']]) })).toEqual({ ids: [1, 2], byId: { 1: 'a' } });
+  });
+});
@@ -0,0 +1,145 @@
+import { parseStackTrace, isInAppFilename } from '../../../src/utils/stackTrace';
+import { extractErrorInfo } from '../../../src/utils/performance';
+import {
+  CHROME_STACK,
+  CHROME_EVAL_STACK,
+  CHROME_MINIFIED_STACK,
+  FIREFOX_STACK,
+  FIREFOX_EVAL_STACK,
+  SAFARI_STACK
+} from '../../fixtures/stackTraces';
+
+describe('parseStackTrace', () => {
+  it('should return no frames for empty stacks', () => {
+    expect(parseStackTrace(undefined)).toEqual([]);
+    expect(parseStackTrace('')).toEqual([]);
+  });
+
+  describe('V8', () => {
+    it('should parse named, anonymous, async and native frames', () => {
+      expect(parseStackTrace(CHROME_STACK)).toEqual([
+        {
+          function: 'UserProfile.setup',
+          filename: 'http://localhost:5173/src/components/UserProfile.vue',
+          line: 42,
+          column: 17,
+          in_app: true
+        },
+        {
+          function: 'callWithErrorHandling',
+          filename: 'http://localhost:5173/node_modules/.vite/deps/vue.js?v=1a2b',
+          line: 1660,
+          column: 19,
+          in_app: false
+        },
+        {
+          function: '<anonymous>',
+          filename: 'http://localhost:5173/src/main.ts',
+          line: 12,
+          column: 5,
+          in_app: true
+        },
+        {
+          function: 'loadUser',
+          filename: 'http://localhost:5173/src/stores/user.ts',
+          line: 8,
+          column: 3,
+          in_app: true
+        },
+        { function: 'Array.map', filename: '<anonymous>', in_app: false },
+        { function: 'new Promise', filename: '<anonymous>', in_app: false }
+      ]);
+    });
+
+    it('should resolve eval frames to the calling script', () => {
+      const frames = parseStackTrace(CHROME_EVAL_STACK);
+
+      expect(frames[0]).toEqual({
+        function: 'eval',
+        filename: 'http://example.com/js/app.js',
+        line: 10,
+        column: 5,
+        in_app: true
+      });
+      expect(frames).toHaveLength(2);
+    });
+
+    it('should parse minified frames', () => {
+      const frames = parseStackTrace(CHROME_MINIFIED_STACK);
+
+      expect(frames.map(frame => [frame.function, frame.line, frame.column])).toEqual([
+        ['n.value', 1, 48211],
+        ['<anonymous>', 2, 1033]
+      ]);
+    });
+  });
+
+  describe('SpiderMonkey', () => {
+    it('should parse named, anonymous and async frames', () => {
+      const frames = parseStackTrace(FIREFOX_STACK);
+
+      expect(frames.map(frame => frame.function)).toEqual([
+        'setup',
+        'callWithErrorHandling',
+        '<anonymous>',
+        'loadUser'
+      ]);
+      expect(frames[1]).toEqual({
+        function: 'callWithErrorHandling',
+        filename: 'http://localhost:5173/node_modules/@vue/runtime-core/dist/runtime-core.esm-bundler.js',
+        line: 157,
+        column: 18,
+        in_app: false
+      });
+    });
+
+    it('should resolve eval and Function frames to the calling script', () => {
+      const frames = parseStackTrace(FIREFOX_EVAL_STACK);
+
+      expect(frames).toEqual([
+        { function: 'eval', filename: 'http://example.com/js/app.js', line: 10, in_app: true },
+        { function: 'compile', filename: 'http://example.com/js/app.js', line: 10, column: 5, in_app: true },
+        { function: 'run', filename: 'http://example.com/js/app.js', line: 20, in_app: true }
+      ]);
+    });
+  });
+
+  describe('JavaScriptCore', () => {
+    it('should parse named, anonymous and native frames', () => {
+      const frames = parseStackTrace(SAFARI_STACK);
+
+      expect(frames.map(frame => [frame.function, frame.filename, frame.line])).toEqual([
+        ['setup', 'http://localhost:5173/src/components/UserProfile.vue', 42],
+        ['callWithErrorHandling', 'http://localhost:5173/node_modules/@vue/runtime-core/dist/runtime-core.esm-bundler.js', 157],
+        ['<anonymous>', 'http://localhost:5173/src/main.ts', 12],
+        ['map', '[native code]', undefined],
+        ['global code', 'http://localhost:5173/src/main.ts', 20]
+      ]);
+      expect(frames[3]!.in_app).toBe(false);
+    });
+  });
+});
+
+describe('isInAppFilename', () => {
+  it('should flag dependencies and browser internals', () => {
+    expect(isInAppFilename('http://localhost/node_modules/vue/index.js')).toBe(false);
+    expect(isInAppFilename('chrome-extension://abc/content.js')).toBe(false);
+    expect(isInAppFilename('http://localhost/src/App.vue')).toBe(true);
+  });
+});
+
+describe('extractErrorInfo', () => {
+  it('should locate the error at the first in-app frame', () => {
+    const error = new Error('boom');
+    error.stack = `Error: boom
+    at callWithErrorHandling (http://localhost/node_modules/vue/dist/vue.js:10:2)
+    at setup (http://localhost/src/App.vue:5:9)`;
+
+    const info = extractErrorInfo(error);
+
+    expect(info.file).toBe('http://localhost/src/App.vue');
+    expect(info.line).toBe(5);
+    expect(info.column).toBe(9);
+    expect(info.frames).toHaveLength(2);
+  });
+});
@@ -0,0 +1,84 @@
+import { getComponentHierarchy, getComponentName, sanitizeProps } from '../../../src/utils/vue';
+import { SecurityValidator } from '../../../src/services/SecurityValidator';
+
+function createInstance(type: Record<string, any>, props: Record<string, any> = {}, parent: any = null, key: any = null): any {
+  return { type, props, parent, vnode: { key } };
+}
+
+describe('getComponentName', () => {
+  it('should prefer the declared name and fall back to the SFC name', () => {
+    const root = createInstance({});
+    expect(getComponentName(createInstance({ name: 'UserCard' }, {}, root))).toBe('UserCard');
+    expect(getComponentName(createInstance({ __name: 'ProfilePage' }, {}, root))).toBe('ProfilePage');
+    expect(getComponentName(createInstance({}, {}, root))).toBe('Anonymous');
+    expect(getComponentName(root)).toBe('Root');
+    expect(getComponentName(null)).toBe('Unknown');
+  });
+});
+
+describe('getComponentHierarchy', () => {
+  const masker = new SecurityValidator();
+
+  it('should walk the parents up to the root, innermost first', () => {
+    const app = createInstance({ name: 'App', __file: '/home/dev/shop/src/App.vue' });
+    const layout = createInstance({ name: 'DefaultLayout' }, {}, app);
+    const page = createInstance({ __name: 'OrderPage', __file: '/home/dev/shop/src/pages/OrderPage.vue' }, { orderId: 42 }, layout);
+    const row = createInstance({ name: 'OrderLine' }, { sku: 'AB-12', quantity: 2, item: { price: 10 } }, page, 'line-3');
+
+    expect(getComponentHierarchy(row, masker)).toEqual([
+      { name: 'OrderLine', key: 'line-3', props: { sku: 'AB-12', quantity: 2 } },
+      { name: 'OrderPage', file: 'src/pages/OrderPage.vue', props: { orderId: 42 } },
+      { name: 'DefaultLayout' },
+      { name: 'App', file: 'src/App.vue' }
+    ]);
+  });
+
+  it('should redact sensitive props and sensitive data in values', () => {
+    const instance = createInstance({ name: 'LoginForm' }, {
+      apiToken: 'abc123',
+      email: 'jane@example.com',
+      label: 'x'.repeat(80)
+    });
+
+    const [entry] = getComponentHierarchy(instance, masker);
+
+    expect(entry!.props!.apiToken).toBe('[REDACTED]');
+    expect(entry!.props!.email).not.toContain('jane@example.com');
+    expect(entry!.props!.label).toBe(`${'x'.repeat(50)}...`);
+  });
+
+  it('should keep the root and replace the middle of deep trees', () => {
+    let instance = createInstance({ name: 'App' });
+    for (let level = 1; level <= 20; level++) {
+      instance = createInstance({ name: `Level${level}` }, {}, instance);
+    }
+
+    const hierarchy = getComponentHierarchy(instance, masker, 5);
+
+    expect(hierarchy.map(entry => entry.name)).toEqual(['Level20', 'Level19', 'Level18', 'Level17', '...', 'App']);
+    expect(hierarchy[4]!.omitted).toBe(16);
+  });
+});
+
+describe('sanitizeProps', () => {
+  it('should normalize props and filter them by name', () => {
+    const props = { user: { id: 1 }, onClick: () => {}, internalState: 'x', ssn: '123' };
+
+    expect(sanitizeProps(props, { denylist: ['ssn', /^internal/] })).toEqual({
+      user: { id: 1 },
+      onClick: '[Function: onClick]',
+      internalState: '[Filtered]',
+      ssn: '[Filtered]'
+    });
+    expect(sanitizeProps(props, { allowlist: ['user'] })).toEqual({ user: { id: 1 } });
+    expect(sanitizeProps(props, { allowlist: ['missing'] })).toBeUndefined();
+    expect(sanitizeProps(null)).toBeUndefined();
+  });
+
+  it('should reduce nesting until the props fit in maxSize', () => {
+    const rows = Array.from({ length: 20 }, (_, index) => ({ id: index, label: `Row ${index}` }));
+
+    expect(sanitizeProps({ rows }, { maxSize: 200 })).toEqual({ rows: '[Array(20)]' });
+    expect(sanitizeProps({ rows, text: 'x'.repeat(200) }, { maxSize: 50 })).toEqual({ rows: '[Truncated]', text: '[Truncated]' });
+  });
+});